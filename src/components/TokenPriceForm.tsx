@@ -9,29 +9,77 @@ import { Progress } from "@/components/ui/progress";
 import { useToast } from "@/hooks/use-toast";
 import { Loader2, TrendingUp, Calendar, Database } from "lucide-react";
 import { supabase } from "@/lib/supabase";
+import { useJob } from "@/hooks/use-job";
+import { useNetworks } from "@/hooks/use-networks";
+import { useTokens } from "@/hooks/use-tokens";
+import { errorDescription, errorTitle, readFunctionError } from "@/lib/errors";
+import type {
+  InterpolationMethod,
+  JobResponse,
+  PriceRequest,
+  PriceResponse,
+  PriceSource,
+  ScheduleRequest,
+  ScheduleResponse,
+} from "@/lib/api";
 
-interface PriceResult {
-  price: number;
-  source: "cache" | "alchemy" | "interpolated";
-  timestamp?: number;
-}
+type PriceResult = PriceResponse & { timestamp?: number };
 
-interface ScheduleProgress {
-  token: string;
-  network: string;
-  progress: number;
-  status: "running" | "completed" | "error";
-}
+// Offered until a network is picked; each network then lists its own
+const allQuoteCurrencies = ["USD", "ETH", "BTC", "EUR"];
+
+const formatPrice = (price: number, quote = "USD") => {
+  if (quote === "USD") return `$${price.toFixed(6)}`;
+  const label = quote.startsWith("0x") ? `${quote.slice(0, 6)}…${quote.slice(-4)}` : quote;
+  return `${price.toFixed(8)} ${label}`;
+};
+
+const formatGap = (seconds: number) => {
+  if (seconds >= 86400) return `${(seconds / 86400).toFixed(1)} days`;
+  if (seconds >= 3600) return `${(seconds / 3600).toFixed(1)} hours`;
+  return `${Math.round(seconds / 60)} minutes`;
+};
+
+const interpolationMethods: { value: InterpolationMethod; label: string }[] = [
+  { value: "linear", label: "Linear" },
+  { value: "log_linear", label: "Log-linear (geometric)" },
+  { value: "monotone_cubic", label: "Monotone cubic spline" },
+  { value: "previous", label: "Previous close (step)" },
+  { value: "nearest", label: "Nearest point" },
+];
+
+type ScheduleProgress = Pick<JobResponse, "progress" | "status">;
 
 export const TokenPriceForm = () => {
   const [tokenAddress, setTokenAddress] = useState("");
   const [network, setNetwork] = useState<string>("");
   const [timestamp, setTimestamp] = useState("");
+  const [method, setMethod] = useState<InterpolationMethod>("linear");
+  const [quote, setQuote] = useState("USD");
   const [loading, setLoading] = useState(false);
   const [scheduling, setScheduling] = useState(false);
   const [priceResult, setPriceResult] = useState<PriceResult | null>(null);
   const [scheduleProgress, setScheduleProgress] = useState<ScheduleProgress | null>(null);
+  const [jobId, setJobId] = useState<string | null>(null);
   const { toast } = useToast();
+  const { data: networks = [] } = useNetworks();
+  const { data: knownTokens = [] } = useTokens();
+  const { data: job, isError: jobUnreadable } = useJob(jobId);
+
+  // The polled job replaces the placeholder shown until its first poll returns
+  const shownProgress = job ?? (jobUnreadable && scheduleProgress
+    ? { ...scheduleProgress, status: "error" as const }
+    : scheduleProgress);
+  const quoteCurrencies = networks.find(({ name }) => name === network)?.quotes ?? allQuoteCurrencies;
+  const exampleTokens = knownTokens.filter((token) => token.network === (network || "ethereum"));
+  const suggestedToken = exampleTokens.find((token) => token.symbol === "USDC") ?? exampleTokens[0];
+
+  // Fall back to USD when the new network has no stand-in for the chosen quote
+  const selectNetwork = (value: string) => {
+    setNetwork(value);
+    const quotes = networks.find(({ name }) => name === value)?.quotes;
+    if (quotes && !quotes.includes(quote)) setQuote("USD");
+  };
 
   const handlePriceQuery = async () => {
     if (!tokenAddress || !network || !timestamp) {
@@ -45,54 +93,62 @@ export const TokenPriceForm = () => {
 
     setLoading(true);
     try {
-      console.log("Calling price function with:", { token: tokenAddress, network, timestamp: parseInt(timestamp) });
+      console.log("Calling price function with:", { token: tokenAddress, network, timestamp: parseInt(timestamp), method, quote });
       
       // Check if Supabase is properly configured
       if (!import.meta.env.VITE_SUPABASE_URL || !import.meta.env.VITE_SUPABASE_ANON_KEY) {
         console.log("Using mock data - Supabase not configured");
         
         // Mock response for demonstration
-        const sources = ["cache", "alchemy", "interpolated"] as const;
+        const sources: PriceSource[] = ["cache", "alchemy", "coingecko", "interpolated"];
         const mockResult: PriceResult = {
           price: parseFloat((1.0 + Math.random() * 0.1).toFixed(6)),
+          quote,
           source: sources[Math.floor(Math.random() * sources.length)]
         };
+        if (mockResult.source === "interpolated") {
+          mockResult.method = method;
+        }
         
         setTimeout(() => {
           setPriceResult(mockResult);
           setLoading(false);
           toast({
             title: "Price Retrieved (Mock)",
-            description: `Found price: $${mockResult.price} (${mockResult.source})`,
+            description: `Found price: ${formatPrice(mockResult.price, mockResult.quote)} (${mockResult.source})`,
           });
         }, 1500);
         return;
       }
       
-      const { data, error } = await supabase.functions.invoke('price', {
+      const { data, error } = await supabase.functions.invoke<PriceResponse>('api/v1/price', {
         body: {
           token: tokenAddress,
           network,
-          timestamp: parseInt(timestamp)
-        }
+          timestamp: parseInt(timestamp),
+          method,
+          quote,
+          block: true
+        } satisfies PriceRequest
       });
 
       if (error) {
         console.error("Supabase function error:", error);
-        throw new Error(error.message || 'Failed to fetch price');
+        throw error;
       }
       
       console.log("Price function response:", data);
-      setPriceResult(data);
+      setPriceResult({ ...data, timestamp: parseInt(timestamp) });
       
       toast({
         title: "Price Retrieved",
-        description: `Found price: $${data.price} (${data.source})`,
+        description: `Found price: ${formatPrice(data.price, data.quote)} (${data.source})`,
       });
     } catch (error) {
+      const failure = await readFunctionError(error);
       toast({
-        title: "Error",
-        description: "Failed to fetch token price",
+        title: errorTitle(failure),
+        description: errorDescription(failure),
         variant: "destructive",
       });
     } finally {
@@ -112,16 +168,15 @@ export const TokenPriceForm = () => {
 
     setScheduling(true);
     try {
-      console.log("Calling schedule function with:", { token: tokenAddress, network });
+      console.log("Calling schedule function with:", { token: tokenAddress, network, quote });
       
       // Check if Supabase is properly configured
       if (!import.meta.env.VITE_SUPABASE_URL || !import.meta.env.VITE_SUPABASE_ANON_KEY) {
         console.log("Using mock schedule - Supabase not configured");
         
         setTimeout(() => {
+          setJobId(null);
           setScheduleProgress({
-            token: tokenAddress,
-            network,
             progress: 0,
             status: "running"
           });
@@ -134,52 +189,48 @@ export const TokenPriceForm = () => {
         return;
       }
       
-      const { data, error } = await supabase.functions.invoke('schedule', {
+      const { data, error } = await supabase.functions.invoke<ScheduleResponse>('api/v1/schedule', {
         body: {
           token: tokenAddress,
-          network
-        }
+          network,
+          quote
+        } satisfies ScheduleRequest
       });
 
       if (error) {
         console.error("Supabase schedule function error:", error);
-        throw new Error(error.message || 'Failed to schedule history fetch');
+        throw error;
       }
       
       console.log("Schedule function response:", data);
       
+      // With nothing left to backfill no job is created, so there is nothing to poll
+      if (data.estimated_days === 0) {
+        setJobId(null);
+        setScheduleProgress({ progress: 100, status: "completed" });
+        toast({
+          title: "History Up To Date",
+          description: data.message,
+        });
+        return;
+      }
+
       setScheduleProgress({
-        token: tokenAddress,
-        network,
         progress: 0,
-        status: "running"
+        status: "pending"
       });
+      setJobId(data.job_id);
 
       toast({
         title: "History Fetch Scheduled",
         description: "Historical price fetching has been queued",
       });
 
-      // Simulate progress updates (in real app, would use WebSocket or polling)
-      const progressInterval = setInterval(() => {
-        setScheduleProgress(prev => {
-          if (!prev || prev.progress >= 100) {
-            clearInterval(progressInterval);
-            return prev;
-          }
-          const newProgress = Math.min(prev.progress + 10, 100);
-          return {
-            ...prev,
-            progress: newProgress,
-            status: newProgress === 100 ? "completed" : "running"
-          };
-        });
-      }, 1000);
-
     } catch (error) {
+      const failure = await readFunctionError(error);
       toast({
-        title: "Error",
-        description: "Failed to schedule history fetch",
+        title: errorTitle(failure),
+        description: errorDescription(failure),
         variant: "destructive",
       });
     } finally {
@@ -187,21 +238,22 @@ export const TokenPriceForm = () => {
     }
   };
 
+  // Anything that is not cache or interpolation names the provider that answered
   const getSourceBadgeVariant = (source: string) => {
     switch (source) {
       case "cache": return "secondary";
-      case "alchemy": return "default";
-      case "interpolated": return "outline";
-      default: return "secondary";
+      case "interpolated":
+      case "extrapolated": return "outline";
+      default: return "default";
     }
   };
 
   const getSourceIcon = (source: string) => {
     switch (source) {
       case "cache": return <Database className="w-3 h-3" />;
-      case "alchemy": return <TrendingUp className="w-3 h-3" />;
-      case "interpolated": return <Calendar className="w-3 h-3" />;
-      default: return null;
+      case "interpolated":
+      case "extrapolated": return <Calendar className="w-3 h-3" />;
+      default: return <TrendingUp className="w-3 h-3" />;
     }
   };
 
@@ -226,9 +278,9 @@ export const TokenPriceForm = () => {
             <div>
               <strong>Popular Token Addresses:</strong>
               <ul className="mt-1 space-y-1 text-muted-foreground font-mono">
-                <li>• USDC: 0xA0b86a33E6417c8aDa77C2d6E2d8e26a4BB0e72C</li>
-                <li>• UNI: 0x1f9840a85d5aF5bf1D1762F925BDADdC4201F984</li>
-                <li>• WETH: 0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2</li>
+                {exampleTokens.map((token) => (
+                  <li key={`${token.network}:${token.address}`}>• {token.symbol}: {token.address}</li>
+                ))}
               </ul>
             </div>
             <div>
@@ -261,30 +313,33 @@ export const TokenPriceForm = () => {
               <div className="flex gap-2">
                 <Input
                   id="tokenAddress"
-                  placeholder="0xA0b869...c2d6 (e.g., USDC)"
+                  placeholder="0xA0b869...eB48 (e.g., USDC)"
                   value={tokenAddress}
                   onChange={(e) => setTokenAddress(e.target.value)}
                   className="font-mono flex-1"
                 />
-                <Button 
-                  variant="outline" 
-                  size="sm"
-                  onClick={() => setTokenAddress("0xA0b86a33E6417c8aDa77C2d6E2d8e26a4BB0e72C")}
-                >
-                  USDC
-                </Button>
+                {suggestedToken && (
+                  <Button 
+                    variant="outline" 
+                    size="sm"
+                    onClick={() => setTokenAddress(suggestedToken.address)}
+                  >
+                    {suggestedToken.symbol}
+                  </Button>
+                )}
               </div>
             </div>
 
             <div className="space-y-2">
               <Label htmlFor="network">Network</Label>
-              <Select value={network} onValueChange={setNetwork}>
+              <Select value={network} onValueChange={selectNetwork}>
                 <SelectTrigger>
                   <SelectValue placeholder="Select network" />
                 </SelectTrigger>
                 <SelectContent>
-                  <SelectItem value="ethereum">Ethereum</SelectItem>
-                  <SelectItem value="polygon">Polygon</SelectItem>
+                  {networks.map(({ name, display_name }) => (
+                    <SelectItem key={name} value={name}>{display_name}</SelectItem>
+                  ))}
                 </SelectContent>
               </Select>
             </div>
@@ -310,6 +365,34 @@ export const TokenPriceForm = () => {
               </div>
             </div>
 
+            <div className="space-y-2">
+              <Label htmlFor="quote">Quote Currency</Label>
+              <Select value={quote} onValueChange={setQuote}>
+                <SelectTrigger id="quote">
+                  <SelectValue placeholder="Select quote" />
+                </SelectTrigger>
+                <SelectContent>
+                  {quoteCurrencies.map((currency) => (
+                    <SelectItem key={currency} value={currency}>{currency}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="method">Interpolation Method</Label>
+              <Select value={method} onValueChange={(value) => setMethod(value as InterpolationMethod)}>
+                <SelectTrigger id="method">
+                  <SelectValue placeholder="Select method" />
+                </SelectTrigger>
+                <SelectContent>
+                  {interpolationMethods.map(({ value, label }) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
             <Button 
               onClick={handlePriceQuery} 
               disabled={loading}
@@ -326,9 +409,15 @@ export const TokenPriceForm = () => {
                     <div className="flex items-center justify-between">
                       <span className="text-sm text-muted-foreground">Price</span>
                       <span className="text-2xl font-bold text-accent">
-                        ${priceResult.price.toFixed(6)}
+                        {formatPrice(priceResult.price, priceResult.quote)}
                       </span>
                     </div>
+                    {priceResult.symbol && (
+                      <div className="flex items-center justify-between">
+                        <span className="text-sm text-muted-foreground">Token</span>
+                        <span className="text-sm font-medium">{priceResult.symbol}</span>
+                      </div>
+                    )}
                     <div className="flex items-center justify-between">
                       <span className="text-sm text-muted-foreground">Source</span>
                       <Badge variant={getSourceBadgeVariant(priceResult.source)}>
@@ -336,6 +425,74 @@ export const TokenPriceForm = () => {
                         <span className="ml-1 capitalize">{priceResult.source}</span>
                       </Badge>
                     </div>
+                    {priceResult.canonical && (
+                      <div className="flex items-center justify-between">
+                        <span className="text-sm text-muted-foreground">Priced As</span>
+                        <span className="text-sm font-mono">
+                          {priceResult.canonical.token.slice(0, 10)}… on {priceResult.canonical.network} ({priceResult.canonical.source})
+                        </span>
+                      </div>
+                    )}
+                    {priceResult.method && (
+                      <div className="flex items-center justify-between">
+                        <span className="text-sm text-muted-foreground">Method</span>
+                        <span className="text-sm font-medium">
+                          {interpolationMethods.find((m) => m.value === priceResult.method)?.label ?? priceResult.method}
+                        </span>
+                      </div>
+                    )}
+                    {priceResult.match && (
+                      <div className="flex items-center justify-between">
+                        <span className="text-sm text-muted-foreground">Matched Row</span>
+                        <span className="text-sm font-medium">
+                          {priceResult.match.distance_seconds === 0
+                            ? "Exact timestamp"
+                            : `${formatGap(priceResult.match.distance_seconds)} ${priceResult.match.timestamp < (priceResult.timestamp ?? 0) ? "before" : "after"}`}
+                          {priceResult.match.resolution && ` (${priceResult.match.resolution} row)`}
+                        </span>
+                      </div>
+                    )}
+                    {priceResult.block_number != null && (
+                      <div className="flex items-center justify-between">
+                        <span className="text-sm text-muted-foreground">Block</span>
+                        <span className="text-sm font-mono">{priceResult.block_number}</span>
+                      </div>
+                    )}
+                    {priceResult.extrapolation && (
+                      <div className="flex items-center justify-between">
+                        <span className="text-sm text-muted-foreground">Staleness</span>
+                        <span className="text-sm font-medium">
+                          {formatGap(priceResult.extrapolation.staleness_seconds)} {priceResult.extrapolation.direction === "forward" ? "after" : "before"} last row
+                        </span>
+                      </div>
+                    )}
+                    {priceResult.gap_guard?.exceeded && (
+                      <div className="flex items-center justify-between">
+                        <span className="text-sm text-muted-foreground">Gap Guard</span>
+                        <span className="text-sm font-medium">
+                          Cached gap of {formatGap(priceResult.gap_guard.gap_seconds)} exceeds {formatGap(priceResult.gap_guard.max_gap_seconds)}
+                        </span>
+                      </div>
+                    )}
+                    {priceResult.interpolation && (
+                      <>
+                        <div className="flex items-center justify-between">
+                          <span className="text-sm text-muted-foreground">Bracket Gap</span>
+                          <span className="text-sm font-medium">
+                            {formatGap(priceResult.interpolation.gap_seconds)}
+                            {priceResult.gap_guard && ` (max ${formatGap(priceResult.gap_guard.max_gap_seconds)})`}
+                          </span>
+                        </div>
+                        <div className="flex items-center justify-between">
+                          <span className="text-sm text-muted-foreground">
+                            {Math.round(priceResult.interpolation.error_band.confidence * 100)}% Band
+                          </span>
+                          <span className="text-sm font-mono">
+                            {formatPrice(priceResult.interpolation.error_band.lower, priceResult.quote)} – {formatPrice(priceResult.interpolation.error_band.upper, priceResult.quote)}
+                          </span>
+                        </div>
+                      </>
+                    )}
                   </div>
                 </CardContent>
               </Card>
@@ -368,13 +525,28 @@ export const TokenPriceForm = () => {
 
             <div className="space-y-2">
               <Label htmlFor="scheduleNetwork">Network</Label>
-              <Select value={network} onValueChange={setNetwork}>
+              <Select value={network} onValueChange={selectNetwork}>
                 <SelectTrigger>
                   <SelectValue placeholder="Select network" />
                 </SelectTrigger>
                 <SelectContent>
-                  <SelectItem value="ethereum">Ethereum</SelectItem>
-                  <SelectItem value="polygon">Polygon</SelectItem>
+                  {networks.map(({ name, display_name }) => (
+                    <SelectItem key={name} value={name}>{display_name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="scheduleQuote">Quote Currency</Label>
+              <Select value={quote} onValueChange={setQuote}>
+                <SelectTrigger id="scheduleQuote">
+                  <SelectValue placeholder="Select quote" />
+                </SelectTrigger>
+                <SelectContent>
+                  {quoteCurrencies.map((currency) => (
+                    <SelectItem key={currency} value={currency}>{currency}</SelectItem>
+                  ))}
                 </SelectContent>
               </Select>
             </div>
@@ -389,21 +561,21 @@ export const TokenPriceForm = () => {
               Schedule Full History
             </Button>
 
-            {scheduleProgress && (
+            {shownProgress && (
               <Card className="bg-muted/50">
                 <CardContent className="pt-6">
                   <div className="space-y-4">
                     <div className="flex items-center justify-between">
                       <span className="text-sm text-muted-foreground">Progress</span>
                       <span className="text-sm font-medium">
-                        {scheduleProgress.progress}%
+                        {Math.round(shownProgress.progress)}%
                       </span>
                     </div>
-                    <Progress value={scheduleProgress.progress} className="w-full" />
+                    <Progress value={shownProgress.progress} className="w-full" />
                     <div className="flex items-center justify-between">
                       <span className="text-sm text-muted-foreground">Status</span>
-                      <Badge variant={scheduleProgress.status === "completed" ? "default" : "secondary"}>
-                        <span className="capitalize">{scheduleProgress.status}</span>
+                      <Badge variant={shownProgress.status === "completed" ? "default" : "secondary"}>
+                        <span className="capitalize">{shownProgress.status}</span>
                       </Badge>
                     </div>
                   </div>
@@ -0,0 +1,26 @@
+import { useQuery } from "@tanstack/react-query"
+import type { JobResponse } from "@/lib/api"
+import { supabase } from "@/lib/supabase"
+
+const POLL_INTERVAL_MS = 2000
+
+// A scheduled job's progress from GET /v1/jobs/:id, polled until it completes or fails
+export function useJob(jobId: string | null) {
+  return useQuery({
+    queryKey: ["job", jobId],
+    queryFn: async (): Promise<JobResponse> => {
+      const { data, error } = await supabase.functions.invoke<JobResponse>(`api/v1/jobs/${jobId}`, {
+        method: "GET",
+      })
+      if (error) throw error
+      return data
+    },
+    enabled: jobId !== null,
+    // Stop once the job finishes, or when it cannot be read at all
+    refetchInterval: (query) => {
+      if (query.state.status === "error") return false
+      const status = query.state.data?.status
+      return status === "completed" || status === "error" ? false : POLL_INTERVAL_MS
+    },
+  })
+}
@@ -0,0 +1,36 @@
+import { useQuery } from "@tanstack/react-query"
+import type { NetworkListResponse, NetworkResponse } from "@/lib/api"
+import { supabase } from "@/lib/supabase"
+
+export type KnownNetwork = Pick<NetworkResponse, "name" | "display_name" | "quotes">
+
+// Shown when Supabase is not configured, matching the rows seeded into `networks`
+const EXAMPLE_NETWORKS: KnownNetwork[] = [
+  { name: "ethereum", display_name: "Ethereum", quotes: ["USD", "ETH", "BTC", "EUR"] },
+  { name: "polygon", display_name: "Polygon", quotes: ["USD", "ETH", "BTC", "EUR"] },
+  { name: "arbitrum", display_name: "Arbitrum One", quotes: ["USD", "ETH", "BTC"] },
+  { name: "optimism", display_name: "OP Mainnet", quotes: ["USD", "ETH", "BTC"] },
+  { name: "base", display_name: "Base", quotes: ["USD", "ETH", "BTC", "EUR"] },
+  { name: "bnb", display_name: "BNB Chain", quotes: ["USD", "ETH", "BTC"] },
+  { name: "avalanche", display_name: "Avalanche C-Chain", quotes: ["USD", "ETH", "BTC", "EUR"] },
+]
+
+// Enabled networks from GET /v1/networks, for the form's network picker
+export function useNetworks() {
+  return useQuery({
+    queryKey: ["networks"],
+    queryFn: async (): Promise<KnownNetwork[]> => {
+      if (!import.meta.env.VITE_SUPABASE_URL || !import.meta.env.VITE_SUPABASE_ANON_KEY) {
+        return EXAMPLE_NETWORKS
+      }
+
+      const { data, error } = await supabase.functions.invoke<NetworkListResponse>("api/v1/networks", {
+        method: "GET",
+      })
+      if (error) throw error
+      return data?.networks ?? []
+    },
+    placeholderData: EXAMPLE_NETWORKS,
+    staleTime: 5 * 60 * 1000,
+  })
+}
@@ -0,0 +1,38 @@
+import { useQuery } from "@tanstack/react-query"
+import { supabase } from "@/lib/supabase"
+
+export interface KnownToken {
+  address: string
+  network: string
+  symbol: string | null
+  name: string | null
+}
+
+// Shown when Supabase is not configured, matching the rows seeded into `tokens`
+const EXAMPLE_TOKENS: KnownToken[] = [
+  { address: "0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48", network: "ethereum", symbol: "USDC", name: "USD Coin" },
+  { address: "0x1f9840a85d5aF5bf1D1762F925BDADdC4201F984", network: "ethereum", symbol: "UNI", name: "Uniswap" },
+  { address: "0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2", network: "ethereum", symbol: "WETH", name: "Wrapped Ether" },
+]
+
+// Tokens with a known symbol from the registry, for suggestions in the form
+export function useTokens() {
+  return useQuery({
+    queryKey: ["tokens"],
+    queryFn: async (): Promise<KnownToken[]> => {
+      if (!import.meta.env.VITE_SUPABASE_URL || !import.meta.env.VITE_SUPABASE_ANON_KEY) {
+        return EXAMPLE_TOKENS
+      }
+
+      const { data, error } = await supabase
+        .from("tokens")
+        .select("address, network, symbol, name")
+        .not("symbol", "is", null)
+        .order("symbol")
+      if (error) throw error
+      return data
+    },
+    placeholderData: EXAMPLE_TOKENS,
+    staleTime: 5 * 60 * 1000,
+  })
+}
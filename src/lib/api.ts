@@ -0,0 +1,14 @@
+// Request and response types inferred from the edge functions' zod schemas,
+// so the form and the API cannot drift apart
+export type {
+  CrossRate,
+  JobResponse,
+  NetworkListResponse,
+  NetworkResponse,
+  PriceRequest,
+  PriceResponse,
+  PriceSource,
+  ScheduleRequest,
+  ScheduleResponse,
+} from '../../supabase/functions/_shared/schemas.ts'
+export type { InterpolationMethod } from '../../supabase/functions/_shared/interpolation.ts'
@@ -0,0 +1,42 @@
+import { FunctionsHttpError } from '@supabase/supabase-js'
+import { apiError, isErrorEnvelope, type ApiError } from '../../supabase/functions/_shared/errors.ts'
+
+// The edge functions' error model, re-exported so components import it from one place
+export * from '../../supabase/functions/_shared/errors.ts'
+
+export type FunctionError = ApiError & { request_id?: string }
+
+// Short titles for the codes a user can act on; anything else falls back to "Error"
+const ERROR_TITLES: Partial<Record<ApiError['code'], string>> = {
+  INVALID_REQUEST: 'Invalid Request',
+  INVALID_ADDRESS: 'Invalid Token Address',
+  INVALID_NETWORK: 'Unsupported Network',
+  INVALID_TIMESTAMP: 'Invalid Timestamp',
+  INVALID_PARAMETER: 'Invalid Parameter',
+  NO_DATA: 'No Price Data',
+  INSUFFICIENT_DATA: 'Insufficient Data',
+  UNSUPPORTED_NETWORK: 'Unsupported Network',
+  RATE_LIMITED: 'Rate Limited',
+  PROVIDER_UNAVAILABLE: 'Provider Unavailable',
+}
+
+/**
+ * Unwrap the error envelope from a failed `supabase.functions.invoke` call.
+ * Network failures and non-envelope bodies become INTERNAL_ERROR.
+ */
+export async function readFunctionError(error: unknown): Promise<FunctionError> {
+  if (error instanceof FunctionsHttpError) {
+    const body = await (error.context as Response).json().catch(() => null)
+    if (isErrorEnvelope(body)) return body.error
+  }
+  return apiError('INTERNAL_ERROR', error instanceof Error ? error.message : 'Request failed')
+}
+
+export function errorTitle(error: FunctionError): string {
+  return ERROR_TITLES[error.code] ?? 'Error'
+}
+
+// Toast description: the server's message plus the request id to quote in bug reports
+export function errorDescription(error: FunctionError): string {
+  return error.request_id ? `${error.message} (request ${error.request_id})` : error.message
+}
@@ -20,7 +20,13 @@ export type Database = {
           network: string
           timestamp: number
           price: number
+          quote: string
+          resolution: 'minute' | 'hour' | 'day'
           date: string
+          quarantined: boolean
+          outlier_score: number | null
+          review: 'released' | 'rejected' | null
+          reviewed_at: string | null
           created_at: string
           updated_at: string
         }
@@ -30,7 +36,13 @@ export type Database = {
           network: string
           timestamp: number
           price: number
+          quote?: string
+          resolution?: 'minute' | 'hour' | 'day'
           date: string
+          quarantined?: boolean
+          outlier_score?: number | null
+          review?: 'released' | 'rejected' | null
+          reviewed_at?: string | null
           created_at?: string
           updated_at?: string
         }
@@ -40,7 +52,13 @@ export type Database = {
           network?: string
           timestamp?: number
           price?: number
+          quote?: string
+          resolution?: 'minute' | 'hour' | 'day'
           date?: string
+          quarantined?: boolean
+          outlier_score?: number | null
+          review?: 'released' | 'rejected' | null
+          reviewed_at?: string | null
           created_at?: string
           updated_at?: string
         }
@@ -51,6 +69,7 @@ export type Database = {
           job_id: string
           token_address: string
           network: string
+          quote: string
           total_days: number
           completed_days: number
           status: 'pending' | 'running' | 'completed' | 'error'
@@ -65,6 +84,7 @@ export type Database = {
           job_id: string
           token_address: string
           network: string
+          quote?: string
           total_days?: number
           completed_days?: number
           status?: 'pending' | 'running' | 'completed' | 'error'
@@ -79,6 +99,7 @@ export type Database = {
           job_id?: string
           token_address?: string
           network?: string
+          quote?: string
           total_days?: number
           completed_days?: number
           status?: 'pending' | 'running' | 'completed' | 'error'
@@ -89,6 +110,218 @@ export type Database = {
           updated_at?: string
         }
       }
+      block_timestamps: {
+        Row: {
+          id: string
+          network: string
+          block_number: number
+          timestamp: number
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          network: string
+          block_number: number
+          timestamp: number
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          network?: string
+          block_number?: number
+          timestamp?: number
+          created_at?: string
+        }
+      }
+      price_settings: {
+        Row: {
+          id: string
+          token_address: string | null
+          network: string | null
+          extrapolation: 'last_known' | 'bounded' | 'refuse' | null
+          max_extrapolation_seconds: number | null
+          max_gap_seconds: number | null
+          on_gap_exceeded: 'provider' | 'error' | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          token_address?: string | null
+          network?: string | null
+          extrapolation?: 'last_known' | 'bounded' | 'refuse' | null
+          max_extrapolation_seconds?: number | null
+          max_gap_seconds?: number | null
+          on_gap_exceeded?: 'provider' | 'error' | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          token_address?: string | null
+          network?: string | null
+          extrapolation?: 'last_known' | 'bounded' | 'refuse' | null
+          max_extrapolation_seconds?: number | null
+          max_gap_seconds?: number | null
+          on_gap_exceeded?: 'provider' | 'error' | null
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      tokens: {
+        Row: {
+          id: string
+          address: string
+          network: string
+          symbol: string | null
+          name: string | null
+          decimals: number | null
+          deployment_block: number | null
+          provider_ids: Record<string, string>
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          address: string
+          network: string
+          symbol?: string | null
+          name?: string | null
+          decimals?: number | null
+          deployment_block?: number | null
+          provider_ids?: Record<string, string>
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          address?: string
+          network?: string
+          symbol?: string | null
+          name?: string | null
+          decimals?: number | null
+          deployment_block?: number | null
+          provider_ids?: Record<string, string>
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      networks: {
+        Row: {
+          name: string
+          chain_id: number
+          display_name: string
+          rpc_env: string
+          native_asset: string
+          genesis_timestamp: number
+          block_time_seconds: number
+          enabled: boolean
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          name: string
+          chain_id: number
+          display_name: string
+          rpc_env: string
+          native_asset: string
+          genesis_timestamp: number
+          block_time_seconds: number
+          enabled?: boolean
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          name?: string
+          chain_id?: number
+          display_name?: string
+          rpc_env?: string
+          native_asset?: string
+          genesis_timestamp?: number
+          block_time_seconds?: number
+          enabled?: boolean
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      canonical_assets: {
+        Row: {
+          id: string
+          token_address: string
+          network: string
+          canonical_address: string
+          canonical_network: string
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          token_address: string
+          network: string
+          canonical_address: string
+          canonical_network: string
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          token_address?: string
+          network?: string
+          canonical_address?: string
+          canonical_network?: string
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      price_provenance: {
+        Row: {
+          id: string
+          token_price_id: string
+          provider: string
+          raw_payload: unknown | null
+          fetched_at: string
+          job_id: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          token_price_id: string
+          provider: string
+          raw_payload?: unknown | null
+          fetched_at?: string
+          job_id?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          token_price_id?: string
+          provider?: string
+          raw_payload?: unknown | null
+          fetched_at?: string
+          job_id?: string | null
+          created_at?: string
+        }
+      }
+    }
+    Functions: {
+      token_price_candles: {
+        Args: {
+          p_token_address: string
+          p_network: string
+          p_quote: string
+          p_bucket: string
+          p_from: number
+          p_to: number
+        }
+        Returns: {
+          bucket_start: number
+          open: number
+          high: number
+          low: number
+          close: number
+          samples: number
+        }[]
+      }
     }
   }
 }
\ No newline at end of file
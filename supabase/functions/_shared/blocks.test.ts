@@ -0,0 +1,81 @@
+import { assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { findBlockAtTimestamp } from "./blocks.ts";
+import { JsonRpcClient } from "./rpc.ts";
+
+const GENESIS = 1_000_000;
+
+/**
+ * A JSON-RPC endpoint serving headers from `timestamps` (block n mined at
+ * timestamps[n]), recording the block tag of each request it answers.
+ */
+function chain(timestamps: number[]) {
+  const requests: unknown[] = [];
+  const fetchImpl = ((_url: string, init: RequestInit) => {
+    const { id, params: [tag] } = JSON.parse(init.body as string);
+    requests.push(tag);
+    const number = tag === "latest" ? timestamps.length - 1 : parseInt(tag, 16);
+    const result = number < 0 || number >= timestamps.length
+      ? null
+      : { number: `0x${number.toString(16)}`, timestamp: `0x${timestamps[number].toString(16)}` };
+    return Promise.resolve(new Response(JSON.stringify({ jsonrpc: "2.0", id, result })));
+  }) as typeof fetch;
+  return { requests, client: new JsonRpcClient("http://localhost:8545", fetchImpl) };
+}
+
+// Blocks every 12 seconds from GENESIS
+const regular = (count: number) => Array.from({ length: count }, (_, n) => GENESIS + 12 * n);
+
+Deno.test("findBlockAtTimestamp returns the block mined at the timestamp", async () => {
+  const { client } = chain(regular(1000));
+  const { block } = await findBlockAtTimestamp(client, GENESIS + 12 * 417);
+  assertEquals(block, { number: 417, timestamp: GENESIS + 12 * 417 });
+});
+
+Deno.test("findBlockAtTimestamp returns the last block before a timestamp between blocks", async () => {
+  const { client } = chain(regular(1000));
+  const { block } = await findBlockAtTimestamp(client, GENESIS + 12 * 417 + 11);
+  assertEquals(block?.number, 417);
+});
+
+Deno.test("findBlockAtTimestamp answers genesis and earlier", async () => {
+  const { client } = chain(regular(1000));
+  assertEquals((await findBlockAtTimestamp(client, GENESIS)).block?.number, 0);
+  assertEquals((await findBlockAtTimestamp(client, GENESIS - 1)).block, null);
+});
+
+Deno.test("findBlockAtTimestamp answers the tip, and later, from the latest header alone", async () => {
+  const { client, requests } = chain(regular(1000));
+  const tip = GENESIS + 12 * 999;
+
+  const atTip = await findBlockAtTimestamp(client, tip);
+  assertEquals(atTip.block?.number, 999);
+  assertEquals(atTip.latest?.number, 999);
+  assertEquals((await findBlockAtTimestamp(client, tip + 3600)).block?.number, 999);
+  assertEquals(requests, ["latest", "latest"]);
+});
+
+Deno.test("findBlockAtTimestamp takes the last of blocks sharing a timestamp", async () => {
+  // Blocks 3, 4 and 5 share a second
+  const { client } = chain([GENESIS, GENESIS + 1, GENESIS + 2, GENESIS + 5, GENESIS + 5, GENESIS + 5, GENESIS + 9]);
+  assertEquals((await findBlockAtTimestamp(client, GENESIS + 5)).block?.number, 5);
+  assertEquals((await findBlockAtTimestamp(client, GENESIS + 4)).block?.number, 2);
+});
+
+Deno.test("findBlockAtTimestamp searches only between the bounds it is given", async () => {
+  const { client, requests } = chain(regular(1000));
+  const { block, latest, visited } = await findBlockAtTimestamp(client, GENESIS + 12 * 417 + 5, {
+    low: { number: 400, timestamp: GENESIS + 12 * 400 },
+    high: { number: 432, timestamp: GENESIS + 12 * 432 },
+  });
+
+  assertEquals(block?.number, 417);
+  assertEquals(latest, undefined);
+  // A binary search over 32 blocks
+  assertEquals(requests.length, 5);
+  assertEquals(visited.length, 5);
+});
+
+Deno.test("findBlockAtTimestamp returns null for an empty chain", async () => {
+  const { client } = chain([]);
+  assertEquals(await findBlockAtTimestamp(client, GENESIS), { block: null, visited: [] });
+});
@@ -0,0 +1,143 @@
+import { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2"
+import { loadNetworks } from "./registry.ts"
+import { BlockHeader, JsonRpcClient, rpcUrlFor } from "./rpc.ts"
+
+// Headers this close to the tip may still be reorged and are not cached
+const FINALITY_DEPTH = 64;
+
+export interface SearchBounds {
+  low?: BlockHeader;
+  high?: BlockHeader;
+}
+
+export interface BlockSearch {
+  block: BlockHeader | null;
+  // Every header fetched during the search
+  visited: BlockHeader[];
+  latest?: BlockHeader;
+}
+
+/**
+ * The last block mined at or before `timestamp`, found by binary search over
+ * block headers. Known headers can be passed as bounds to shorten the
+ * search. The block is null when the timestamp predates the chain.
+ */
+export async function findBlockAtTimestamp(
+  client: JsonRpcClient,
+  timestamp: number,
+  bounds: SearchBounds = {}
+): Promise<BlockSearch> {
+  const visited: BlockHeader[] = [];
+  const fetchBlock = async (tag: number | "latest") => {
+    const header = await client.getBlock(tag);
+    if (header) visited.push(header);
+    return header;
+  };
+
+  let latest: BlockHeader | undefined;
+  let high = bounds.high;
+  if (!high) {
+    latest = (await fetchBlock("latest")) ?? undefined;
+    if (!latest) return { block: null, visited };
+    if (timestamp >= latest.timestamp) return { block: latest, visited, latest };
+    high = latest;
+  }
+
+  let low = bounds.low ?? (await fetchBlock(0));
+  if (!low || timestamp < low.timestamp) return { block: null, visited, latest };
+
+  // Invariant: low.timestamp <= timestamp < high.timestamp
+  while (high.number - low.number > 1) {
+    const mid = await fetchBlock(Math.floor((low.number + high.number) / 2));
+    if (!mid) break;
+    if (mid.timestamp <= timestamp) {
+      low = mid;
+    } else {
+      high = mid;
+    }
+  }
+  return { block: low, visited, latest };
+}
+
+// The cached headers closest to `timestamp` on either side
+async function cachedBounds(
+  supabase: SupabaseClient,
+  network: string,
+  timestamp: number
+): Promise<SearchBounds> {
+  const { data: below } = await supabase
+    .from("block_timestamps")
+    .select("block_number, timestamp")
+    .eq("network", network)
+    .lte("timestamp", timestamp)
+    .order("block_number", { ascending: false })
+    .limit(1)
+
+  const { data: above } = await supabase
+    .from("block_timestamps")
+    .select("block_number, timestamp")
+    .eq("network", network)
+    .gt("timestamp", timestamp)
+    .order("block_number", { ascending: true })
+    .limit(1)
+
+  const toHeader = (row: { block_number: number; timestamp: number }): BlockHeader => ({
+    number: Number(row.block_number),
+    timestamp: Number(row.timestamp),
+  });
+  return {
+    low: below && below.length > 0 ? toHeader(below[0]) : undefined,
+    high: above && above.length > 0 ? toHeader(above[0]) : undefined,
+  };
+}
+
+// Adjacent cached headers pin down the block without an RPC search
+function pinnedBlock({ low, high }: SearchBounds): BlockHeader | null {
+  return low && high && high.number === low.number + 1 ? low : null;
+}
+
+/**
+ * The block at `timestamp` on `network` when block_timestamps alone can
+ * answer it, else null. Never touches the RPC endpoint.
+ */
+export async function cachedBlock(
+  supabase: SupabaseClient,
+  network: string,
+  timestamp: number
+): Promise<BlockHeader | null> {
+  return pinnedBlock(await cachedBounds(supabase, network, timestamp));
+}
+
+/**
+ * Resolve the canonical block at `timestamp` on `network`, using headers
+ * cached in block_timestamps to bound (or skip) the RPC search and caching
+ * every settled header the search visits. Returns null when the network
+ * has no RPC endpoint configured or the timestamp predates the chain.
+ */
+export async function resolveBlock(
+  supabase: SupabaseClient,
+  network: string,
+  timestamp: number
+): Promise<BlockHeader | null> {
+  const url = rpcUrlFor((await loadNetworks(supabase))[network]);
+  if (!url) return null;
+
+  const { low, high } = await cachedBounds(supabase, network, timestamp);
+  const pinned = pinnedBlock({ low, high });
+  if (pinned) return pinned;
+
+  const { block, visited, latest } = await findBlockAtTimestamp(new JsonRpcClient(url), timestamp, { low, high });
+
+  const settled = visited.filter((header) => !latest || header.number <= latest.number - FINALITY_DEPTH);
+  if (settled.length > 0) {
+    const { error } = await supabase
+      .from("block_timestamps")
+      .upsert(
+        settled.map((header) => ({ network, block_number: header.number, timestamp: header.timestamp })),
+        { onConflict: "network,block_number", ignoreDuplicates: true }
+      )
+    if (error) console.warn("Failed to cache block headers:", error);
+  }
+
+  return block;
+}
@@ -0,0 +1,107 @@
+import { assertEquals, assertRejects } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { LruCache, SingleFlight, newCacheStats } from "./cache.ts";
+
+// A cache on a clock the test moves by hand
+function cacheAt(maxEntries: number, ttlMs: number) {
+  const clock = { now: 0 };
+  return { clock, cache: new LruCache<string>(maxEntries, ttlMs, () => clock.now) };
+}
+
+Deno.test("LruCache entries expire after their TTL", () => {
+  const { clock, cache } = cacheAt(10, 1000);
+  cache.set("a", "1");
+
+  clock.now = 999;
+  assertEquals(cache.get("a"), "1");
+  clock.now = 1000;
+  assertEquals(cache.get("a"), undefined);
+  assertEquals(cache.size, 0);
+});
+
+Deno.test("LruCache set restarts the TTL", () => {
+  const { clock, cache } = cacheAt(10, 1000);
+  cache.set("a", "1");
+  clock.now = 800;
+  cache.set("a", "2");
+  clock.now = 1500;
+  assertEquals(cache.get("a"), "2");
+});
+
+Deno.test("LruCache evicts the least recently used entry", () => {
+  const { cache } = cacheAt(2, 1000);
+  cache.set("a", "1");
+  cache.set("b", "2");
+  // Reading "a" makes "b" the least recently used
+  cache.get("a");
+  cache.set("c", "3");
+
+  assertEquals(cache.size, 2);
+  assertEquals(cache.get("a"), "1");
+  assertEquals(cache.get("b"), undefined);
+  assertEquals(cache.get("c"), "3");
+});
+
+Deno.test("LruCache counts hits and misses", () => {
+  const { cache } = cacheAt(10, 1000);
+  const stats = newCacheStats();
+  cache.set("a", "1");
+  cache.get("a", stats);
+  cache.get("b", stats);
+  assertEquals(stats, { hits: 1, misses: 1 });
+});
+
+Deno.test("LruCache invalidates by prefix", () => {
+  const { cache } = cacheAt(10, 1000);
+  cache.set("ethereum:0xa:1", "1");
+  cache.set("ethereum:0xa:2", "2");
+  cache.set("ethereum:0xb:1", "3");
+  cache.invalidate("ethereum:0xa:");
+  assertEquals(cache.size, 1);
+  assertEquals(cache.get("ethereum:0xb:1"), "3");
+});
+
+Deno.test("SingleFlight shares one call between concurrent callers", async () => {
+  const flight = new SingleFlight<number>();
+  let calls = 0;
+  let release!: (value: number) => void;
+  const fn = () => {
+    calls++;
+    return new Promise<number>((resolve) => (release = resolve));
+  };
+
+  const first = flight.run("key", fn);
+  const second = flight.run("key", fn);
+  release(42);
+
+  assertEquals(await Promise.all([first, second]), [42, 42]);
+  assertEquals(calls, 1);
+});
+
+Deno.test("SingleFlight shares a rejection, then lets the next call retry", async () => {
+  const flight = new SingleFlight<number>();
+  let calls = 0;
+  let fail!: (error: Error) => void;
+  const failing = () => {
+    calls++;
+    return new Promise<number>((_, reject) => (fail = reject));
+  };
+
+  const first = flight.run("key", failing);
+  const second = flight.run("key", failing);
+  fail(new Error("provider down"));
+
+  await assertRejects(() => first, Error, "provider down");
+  await assertRejects(() => second, Error, "provider down");
+  assertEquals(calls, 1);
+
+  assertEquals(await flight.run("key", () => Promise.resolve(7)), 7);
+});
+
+Deno.test("SingleFlight keeps different keys apart", async () => {
+  const flight = new SingleFlight<string>();
+  const [a, b] = await Promise.all([
+    flight.run("a", () => Promise.resolve("a")),
+    flight.run("b", () => Promise.resolve("b")),
+  ]);
+  assertEquals([a, b], ["a", "b"]);
+});
@@ -0,0 +1,84 @@
+// Hit and miss counts for one request, reported back in response headers
+export interface CacheStats {
+  hits: number;
+  misses: number;
+}
+
+export function newCacheStats(): CacheStats {
+  return { hits: 0, misses: 0 };
+}
+
+export function cacheStatsHeaders(stats: CacheStats): Record<string, string> {
+  return { "X-Cache-Hits": String(stats.hits), "X-Cache-Misses": String(stats.misses) };
+}
+
+interface Entry<V> {
+  value: V;
+  expires: number;
+}
+
+/**
+ * Least-recently-used map whose entries also expire `ttlMs` after being
+ * stored. Lives for as long as the function's isolate, so it only smooths
+ * over bursts of repeated lookups; it is not shared between instances.
+ */
+export class LruCache<V> {
+  // Map iteration order is insertion order, so the first key is the least recently used
+  private readonly entries = new Map<string, Entry<V>>();
+
+  constructor(
+    readonly maxEntries: number,
+    readonly ttlMs: number,
+    private readonly now: () => number = Date.now
+  ) {}
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  get(key: string, stats?: CacheStats): V | undefined {
+    const entry = this.entries.get(key);
+    if (!entry || entry.expires <= this.now()) {
+      if (entry) this.entries.delete(key);
+      if (stats) stats.misses++;
+      return undefined;
+    }
+
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    if (stats) stats.hits++;
+    return entry.value;
+  }
+
+  set(key: string, value: V): void {
+    this.entries.delete(key);
+    this.entries.set(key, { value, expires: this.now() + this.ttlMs });
+    while (this.entries.size > this.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value);
+    }
+  }
+
+  // Drop every entry whose key starts with `prefix`
+  invalidate(prefix: string): void {
+    for (const key of [...this.entries.keys()]) {
+      if (key.startsWith(prefix)) this.entries.delete(key);
+    }
+  }
+}
+
+/**
+ * Coalesces concurrent calls for the same key: while a call is in flight,
+ * later callers await its promise instead of starting their own.
+ */
+export class SingleFlight<V> {
+  private readonly calls = new Map<string, Promise<V>>();
+
+  run(key: string, fn: () => Promise<V>): Promise<V> {
+    const pending = this.calls.get(key);
+    if (pending) return pending;
+
+    const call = fn().finally(() => this.calls.delete(key));
+    this.calls.set(key, call);
+    return call;
+  }
+}
@@ -0,0 +1,34 @@
+import { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2"
+import { LruCache } from "./cache.ts"
+
+// The asset a bridged or re-issued token tracks, priced in its stead
+export interface CanonicalAsset {
+  token: string;
+  network: string;
+}
+
+// Mappings are curated by hand; unmapped tokens are cached as null so misses stay cheap
+const canonicalCache = new LruCache<CanonicalAsset | null>(500, 5 * 60 * 1000);
+
+// The canonical asset for a token, or null when it is priced on its own
+export async function resolveCanonical(
+  supabase: SupabaseClient,
+  token: string,
+  network: string
+): Promise<CanonicalAsset | null> {
+  const key = `${network}:${token}`;
+  const cached = canonicalCache.get(key);
+  if (cached !== undefined) return cached;
+
+  const { data, error } = await supabase
+    .from("canonical_assets")
+    .select("canonical_address, canonical_network")
+    .eq("token_address", token)
+    .eq("network", network)
+    .maybeSingle()
+  if (error) throw error;
+
+  const canonical = data ? { token: data.canonical_address, network: data.canonical_network } : null;
+  canonicalCache.set(key, canonical);
+  return canonical;
+}
@@ -0,0 +1,93 @@
+// Error model shared by every edge function and the frontend. Keep this file
+// free of Deno APIs: the app imports it directly.
+
+export type ErrorCode =
+  | "INVALID_REQUEST"
+  | "INVALID_ADDRESS"
+  | "INVALID_NETWORK"
+  | "INVALID_TIMESTAMP"
+  | "INVALID_PARAMETER"
+  | "UNAUTHORIZED"
+  | "NOT_FOUND"
+  | "METHOD_NOT_ALLOWED"
+  | "NO_DATA"
+  | "INSUFFICIENT_DATA"
+  | "UNSUPPORTED_NETWORK"
+  | "RATE_LIMITED"
+  | "PROVIDER_UNAUTHORIZED"
+  | "PROVIDER_UNAVAILABLE"
+  | "PROVIDER_BAD_RESPONSE"
+  | "CONFIGURATION_ERROR"
+  | "INTERNAL_ERROR";
+
+// HTTP status for each code; a response's status always follows its code
+export const ERROR_STATUS: Record<ErrorCode, number> = {
+  INVALID_REQUEST: 400,
+  INVALID_ADDRESS: 400,
+  INVALID_NETWORK: 400,
+  INVALID_TIMESTAMP: 400,
+  INVALID_PARAMETER: 400,
+  UNAUTHORIZED: 401,
+  NOT_FOUND: 404,
+  METHOD_NOT_ALLOWED: 405,
+  NO_DATA: 404,
+  INSUFFICIENT_DATA: 422,
+  UNSUPPORTED_NETWORK: 400,
+  RATE_LIMITED: 429,
+  PROVIDER_UNAUTHORIZED: 502,
+  PROVIDER_UNAVAILABLE: 503,
+  PROVIDER_BAD_RESPONSE: 502,
+  CONFIGURATION_ERROR: 500,
+  INTERNAL_ERROR: 500,
+};
+
+export const ERROR_CODES = Object.keys(ERROR_STATUS) as ErrorCode[];
+
+// One rejected request field, so forms can highlight it
+export interface FieldError {
+  field: string;
+  code: ErrorCode;
+  message: string;
+}
+
+export interface ApiError {
+  code: ErrorCode;
+  message: string;
+  details?: Record<string, unknown>;
+}
+
+// Body of every non-2xx response
+export interface ErrorEnvelope {
+  error: ApiError & { request_id: string };
+}
+
+export function apiError(code: ErrorCode, message: string, details?: Record<string, unknown>): ApiError {
+  return details ? { code, message, details } : { code, message };
+}
+
+/**
+ * Fold field errors into one error. The top-level code is the fields' shared
+ * code when they agree, INVALID_REQUEST otherwise.
+ */
+export function fieldErrors(errors: FieldError[]): ApiError {
+  const codes = new Set(errors.map((error) => error.code));
+  const code = codes.size === 1 ? errors[0].code : "INVALID_REQUEST";
+  const message = errors.length === 1
+    ? `${errors[0].field}: ${errors[0].message}`
+    : `Invalid fields: ${errors.map((error) => error.field).join(", ")}`;
+  return apiError(code, message, { fields: errors });
+}
+
+export function errorEnvelope(error: ApiError, requestId: string): ErrorEnvelope {
+  return { error: { ...error, request_id: requestId } };
+}
+
+export function isErrorEnvelope(value: unknown): value is ErrorEnvelope {
+  const error = (value as ErrorEnvelope | null)?.error;
+  return typeof error === "object" && error !== null && typeof error.code === "string";
+}
+
+// Identifier echoed in error bodies so a report can be matched to the logs
+export function newRequestId(): string {
+  return crypto.randomUUID();
+}
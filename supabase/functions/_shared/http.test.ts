@@ -0,0 +1,76 @@
+import { assert, assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { Router, conditionalJson, etagFor, matchesEtag } from "./http.ts";
+
+Deno.test("etagFor is a quoted, stable digest of the body", async () => {
+  const etag = await etagFor('{"price":1}');
+  assert(/^"[0-9a-f]{32}"$/.test(etag), etag);
+  assertEquals(await etagFor('{"price":1}'), etag);
+  assert((await etagFor('{"price":2}')) !== etag);
+});
+
+Deno.test("matchesEtag compares strong and weak validators alike", () => {
+  const etag = '"abc"';
+  assertEquals(matchesEtag('"abc"', etag), true);
+  assertEquals(matchesEtag('W/"abc"', etag), true);
+  assertEquals(matchesEtag('"abd"', etag), false);
+  assertEquals(matchesEtag(null, etag), false);
+  assertEquals(matchesEtag("", etag), false);
+});
+
+Deno.test("matchesEtag finds the validator in a list", () => {
+  const etag = '"abc"';
+  assertEquals(matchesEtag('"x", W/"abc" ,"y"', etag), true);
+  assertEquals(matchesEtag('"x","y"', etag), false);
+  assertEquals(matchesEtag(" * ", etag), true);
+});
+
+Deno.test("conditionalJson answers a matching If-None-Match with a bare 304", async () => {
+  const fresh = await conditionalJson({ price: 1 }, null);
+  const etag = fresh.headers.get("ETag")!;
+  assertEquals(fresh.status, 200);
+  assertEquals(await fresh.json(), { price: 1 });
+
+  const cached = await conditionalJson({ price: 1 }, `W/${etag}`);
+  assertEquals(cached.status, 304);
+  assertEquals(cached.headers.get("ETag"), etag);
+  assertEquals(await cached.text(), "");
+});
+
+const echo = (name: string) => (_req: Request, { params }: { params: Record<string, string> }) =>
+  Promise.resolve(new Response(JSON.stringify({ name, params })));
+
+const router = new Router()
+  .on("GET", "/v1/jobs/:id", echo("job"))
+  .on("GET", "/v1/tokens/:network/:address", echo("token"))
+  .on("POST", "/v1/price", echo("price post"))
+  .on("GET", "/v1/price", echo("price get"));
+
+const route = (method: string, path: string) =>
+  router.handle(new Request(`http://localhost/api${path}`, { method }), "req-1");
+
+Deno.test("Router matches by method and path, after the function name", async () => {
+  assertEquals(await (await route("GET", "/v1/price")).json(), { name: "price get", params: {} });
+  assertEquals(await (await route("POST", "/v1/price")).json(), { name: "price post", params: {} });
+});
+
+Deno.test("Router extracts and decodes path parameters", async () => {
+  assertEquals(await (await route("GET", "/v1/jobs/job%2D1")).json(), { name: "job", params: { id: "job-1" } });
+  assertEquals(await (await route("GET", "/v1/tokens/ethereum/0xabc")).json(), {
+    name: "token",
+    params: { network: "ethereum", address: "0xabc" },
+  });
+});
+
+Deno.test("Router tells a wrong method from an unknown path", async () => {
+  const wrongMethod = await route("DELETE", "/v1/price");
+  assertEquals(wrongMethod.status, 405);
+  assertEquals((await wrongMethod.json()).error.code, "METHOD_NOT_ALLOWED");
+
+  const unknown = await route("GET", "/v1/jobs");
+  assertEquals(unknown.status, 404);
+  assertEquals((await unknown.json()).error, {
+    code: "NOT_FOUND",
+    message: "No route for GET /v1/jobs",
+    request_id: "req-1",
+  });
+});
@@ -0,0 +1,156 @@
+import { ApiError, ERROR_STATUS, apiError, errorEnvelope } from "./errors.ts"
+
+export const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type, if-none-match",
+  "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+  "Access-Control-Expose-Headers": "ETag, Last-Modified, X-Cache-Hits, X-Cache-Misses",
+};
+
+export function json(body: unknown, status = 200, headers: Record<string, string> = {}): Response {
+  return new Response(
+    JSON.stringify(body),
+    {
+      status,
+      headers: { ...corsHeaders, "Content-Type": "application/json", ...headers }
+    }
+  );
+}
+
+export function fail(error: ApiError, requestId: string, headers: Record<string, string> = {}): Response {
+  return json(errorEnvelope(error, requestId), ERROR_STATUS[error.code], headers);
+}
+
+/**
+ * Request input as a plain object: the JSON body for POST, the query string
+ * for GET. `numeric` query parameters are parsed as numbers and `flags`
+ * given as "true" or "false" as booleans, so both verbs go through the same
+ * validation. Returns null when a POST body is not JSON.
+ */
+export async function readInput(
+  req: Request,
+  numeric: string[] = [],
+  flags: string[] = []
+): Promise<Record<string, unknown> | null> {
+  if (req.method === "GET") {
+    const input: Record<string, unknown> = {};
+    for (const [key, value] of new URL(req.url).searchParams) {
+      if (numeric.includes(key) && value.trim() !== "") {
+        input[key] = Number(value);
+      } else if (flags.includes(key) && (value === "true" || value === "false")) {
+        input[key] = value === "true";
+      } else {
+        input[key] = value;
+      }
+    }
+    return input;
+  }
+
+  try {
+    const body = await req.json();
+    return typeof body === "object" && body !== null ? body : null;
+  } catch {
+    return null;
+  }
+}
+
+// Strong validator for a response body: the hex SHA-256 of its bytes, quoted
+export async function etagFor(body: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(body));
+  const hex = Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, "0")).join("");
+  return `"${hex.slice(0, 32)}"`;
+}
+
+// Whether an If-None-Match header names `etag`; weak validators compare equal
+export function matchesEtag(ifNoneMatch: string | null, etag: string): boolean {
+  if (!ifNoneMatch) return false;
+  if (ifNoneMatch.trim() === "*") return true;
+  return ifNoneMatch.split(",").some((tag) => tag.trim().replace(/^W\//, "") === etag);
+}
+
+/**
+ * A 200 carrying `body` with an ETag, or a bodiless 304 when the client's
+ * If-None-Match already names it. `headers` go on both.
+ */
+export async function conditionalJson(
+  body: unknown,
+  ifNoneMatch: string | null,
+  headers: Record<string, string> = {}
+): Promise<Response> {
+  const text = JSON.stringify(body);
+  const etag = await etagFor(text);
+  if (matchesEtag(ifNoneMatch, etag)) {
+    return new Response(null, { status: 304, headers: { ...corsHeaders, ...headers, ETag: etag } });
+  }
+  return new Response(text, {
+    status: 200,
+    headers: { ...corsHeaders, "Content-Type": "application/json", ...headers, ETag: etag }
+  });
+}
+
+// Headers marking an unversioned endpoint as deprecated in favour of `successor`
+export function deprecationHeaders(successor: string): Record<string, string> {
+  return { Deprecation: "true", Link: `<${successor}>; rel="successor-version"` };
+}
+
+export interface RouteContext {
+  params: Record<string, string>;
+  requestId: string;
+}
+
+export type RouteHandler = (req: Request, context: RouteContext) => Promise<Response>;
+
+interface Route {
+  method: string;
+  segments: string[];
+  handler: RouteHandler;
+}
+
+/**
+ * Method and path routing inside one edge function. Patterns are matched
+ * against the path after the function name, so `/v1/jobs/:id` serves
+ * `/functions/v1/api/v1/jobs/123`.
+ */
+export class Router {
+  private readonly routes: Route[] = [];
+
+  on(method: string, pattern: string, handler: RouteHandler): this {
+    this.routes.push({ method, segments: pattern.split("/").filter(Boolean), handler });
+    return this;
+  }
+
+  handle(req: Request, requestId: string): Promise<Response> {
+    // The first segment is the function's own name
+    const segments = new URL(req.url).pathname.split("/").filter(Boolean).slice(1);
+
+    let pathMatched = false;
+    for (const route of this.routes) {
+      const params = matchSegments(route.segments, segments);
+      if (!params) continue;
+      pathMatched = true;
+      if (route.method === req.method) {
+        return route.handler(req, { params, requestId });
+      }
+    }
+
+    return Promise.resolve(
+      pathMatched
+        ? fail(apiError("METHOD_NOT_ALLOWED", `${req.method} is not supported on this path`), requestId)
+        : fail(apiError("NOT_FOUND", `No route for ${req.method} /${segments.join("/")}`), requestId)
+    );
+  }
+}
+
+function matchSegments(pattern: string[], path: string[]): Record<string, string> | null {
+  if (pattern.length !== path.length) return null;
+
+  const params: Record<string, string> = {};
+  for (let i = 0; i < pattern.length; i++) {
+    if (pattern[i].startsWith(":")) {
+      params[pattern[i].slice(1)] = decodeURIComponent(path[i]);
+    } else if (pattern[i] !== path[i]) {
+      return null;
+    }
+  }
+  return params;
+}
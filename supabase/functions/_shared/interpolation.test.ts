@@ -0,0 +1,87 @@
+import {
+  assert,
+  assertAlmostEquals,
+  assertEquals,
+} from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { PricePoint, describeInterpolation, extrapolate, interpolate } from "./interpolation.ts";
+
+const DAY = 86400;
+
+const at = (day: number, price: number): PricePoint => ({ timestamp: day * DAY, price });
+
+Deno.test("monotone_cubic does not overshoot a jump between quiet stretches", () => {
+  const before = [at(0, 1), at(1, 1.02), at(2, 1.1)];
+  const after = [at(3, 3), at(4, 3.05), at(5, 3.06)];
+
+  let previous = 1.1;
+  for (let hour = 1; hour < 24; hour++) {
+    const price = interpolate("monotone_cubic", 2 * DAY + hour * 3600, before, after);
+    assert(price >= 1.1 && price <= 3, `overshot to ${price} at hour ${hour}`);
+    assert(price >= previous, `turned back to ${price} at hour ${hour}`);
+    previous = price;
+  }
+});
+
+Deno.test("monotone_cubic keeps a flat stretch flat", () => {
+  const price = interpolate("monotone_cubic", 1.5 * DAY, [at(0, 1), at(1, 1)], [at(2, 1), at(3, 5)]);
+  assertEquals(price, 1);
+});
+
+Deno.test("monotone_cubic falls back to linear with two points", () => {
+  assertEquals(interpolate("monotone_cubic", 0.25 * DAY, [at(0, 100)], [at(1, 200)]), 125);
+});
+
+Deno.test("log_linear interpolates geometrically", () => {
+  assertAlmostEquals(interpolate("log_linear", 0.5 * DAY, [at(0, 100)], [at(1, 400)]), 200);
+  assertAlmostEquals(interpolate("log_linear", 0.25 * DAY, [at(0, 1)], [at(1, 16)]), 2);
+});
+
+Deno.test("log_linear falls back to linear for non-positive prices", () => {
+  assertEquals(interpolate("log_linear", 0.5 * DAY, [at(0, 0)], [at(1, 10)]), 5);
+});
+
+Deno.test("error band is a Brownian bridge: closed at the rows, widest mid-gap", () => {
+  const before = [at(0, 100), at(1, 110), at(2, 100)];
+  const after = [at(3, 110), at(4, 100)];
+  const width = (day: number) => {
+    const { error_band } = describeInterpolation(day * DAY, 105, before, after);
+    return Math.log(error_band.upper / error_band.lower);
+  };
+
+  assertEquals(width(2), 0);
+  assertEquals(width(3), 0);
+  assert(width(2.5) > width(2.25));
+  assertAlmostEquals(width(2.25), width(2.75), 1e-6);
+  // Variance grows linearly towards mid-gap, so the width grows with its square root
+  assertAlmostEquals(width(2.25) / width(2.5), Math.sqrt(0.75), 1e-4);
+});
+
+Deno.test("error band collapses for a flat series", () => {
+  const { error_band } = describeInterpolation(0.5 * DAY, 1, [at(0, 1)], [at(1, 1)]);
+  assertEquals(error_band.lower, 1);
+  assertEquals(error_band.upper, 1);
+  assertEquals(error_band.volatility_per_day, 0);
+});
+
+Deno.test("last_known extrapolation repeats the nearest row", () => {
+  const points = [at(0, 100), at(1, 120)];
+  assertEquals(extrapolate("last_known", 5 * DAY, points), 120);
+  assertEquals(extrapolate("last_known", -5 * DAY, points), 100);
+});
+
+Deno.test("bounded extrapolation follows the trend a short way out", () => {
+  const points = [at(0, 100), at(1, 110)];
+  assertAlmostEquals(extrapolate("bounded", 2 * DAY, points), 121, 1e-6);
+  assertAlmostEquals(extrapolate("bounded", -DAY, points), 100 / 1.1, 1e-6);
+});
+
+Deno.test("bounded extrapolation caps the move at the volatility band", () => {
+  const points = [at(0, 100), at(1, 110)];
+  const step = Math.log(1.1);
+  // A hundred days out the trend alone would be 1.1^100; the band allows 1.96 * sqrt(100) steps
+  assertAlmostEquals(extrapolate("bounded", 101 * DAY, points), 110 * Math.exp(1.96 * 10 * step), 1e-6);
+});
+
+Deno.test("bounded extrapolation from a single row repeats it", () => {
+  assertEquals(extrapolate("bounded", 3 * DAY, [at(0, 42)]), 42);
+});
@@ -0,0 +1,246 @@
+export type InterpolationMethod =
+  | "linear"
+  | "log_linear"
+  | "monotone_cubic"
+  | "previous"
+  | "nearest";
+
+export const INTERPOLATION_METHODS: InterpolationMethod[] = [
+  "linear",
+  "log_linear",
+  "monotone_cubic",
+  "previous",
+  "nearest",
+];
+
+export const DEFAULT_INTERPOLATION_METHOD: InterpolationMethod = "linear";
+
+export interface PricePoint {
+  timestamp: number;
+  price: number;
+}
+
+// How many rows each method wants on either side of the target
+export function neighbourCount(method: InterpolationMethod): number {
+  return method === "monotone_cubic" ? 3 : 1;
+}
+
+export function isInterpolationMethod(value: unknown): value is InterpolationMethod {
+  return typeof value === "string" && (INTERPOLATION_METHODS as string[]).includes(value);
+}
+
+function linear(target: number, a: PricePoint, b: PricePoint): number {
+  const ratio = (target - a.timestamp) / (b.timestamp - a.timestamp);
+  return a.price + (b.price - a.price) * ratio;
+}
+
+// Geometric interpolation; falls back to linear when a price is not positive
+function logLinear(target: number, a: PricePoint, b: PricePoint): number {
+  if (a.price <= 0 || b.price <= 0) {
+    return linear(target, a, b);
+  }
+  const ratio = (target - a.timestamp) / (b.timestamp - a.timestamp);
+  return Math.exp(Math.log(a.price) + (Math.log(b.price) - Math.log(a.price)) * ratio);
+}
+
+// Fritsch-Carlson monotone cubic Hermite spline through all supplied points
+function monotoneCubic(target: number, points: PricePoint[]): number {
+  const n = points.length;
+  if (n < 3) {
+    return linear(target, points[0], points[n - 1]);
+  }
+
+  const h: number[] = [];
+  const delta: number[] = [];
+  for (let i = 0; i < n - 1; i++) {
+    h.push(points[i + 1].timestamp - points[i].timestamp);
+    delta.push((points[i + 1].price - points[i].price) / h[i]);
+  }
+
+  const m: number[] = new Array(n);
+  m[0] = delta[0];
+  m[n - 1] = delta[n - 2];
+  for (let i = 1; i < n - 1; i++) {
+    m[i] = delta[i - 1] * delta[i] <= 0 ? 0 : (delta[i - 1] + delta[i]) / 2;
+  }
+
+  for (let i = 0; i < n - 1; i++) {
+    if (delta[i] === 0) {
+      m[i] = 0;
+      m[i + 1] = 0;
+      continue;
+    }
+    const alpha = m[i] / delta[i];
+    const beta = m[i + 1] / delta[i];
+    const s = alpha * alpha + beta * beta;
+    if (s > 9) {
+      const tau = 3 / Math.sqrt(s);
+      m[i] = tau * alpha * delta[i];
+      m[i + 1] = tau * beta * delta[i];
+    }
+  }
+
+  let k = 0;
+  while (k < n - 2 && target > points[k + 1].timestamp) {
+    k++;
+  }
+
+  const t = (target - points[k].timestamp) / h[k];
+  const t2 = t * t;
+  const t3 = t2 * t;
+  return (
+    (2 * t3 - 3 * t2 + 1) * points[k].price +
+    (t3 - 2 * t2 + t) * h[k] * m[k] +
+    (-2 * t3 + 3 * t2) * points[k + 1].price +
+    (t3 - t2) * h[k] * m[k + 1]
+  );
+}
+
+/**
+ * Estimate the price at `target` from cached rows on either side of it.
+ * `before` and `after` must both be sorted by ascending timestamp and
+ * contain at least one point each.
+ */
+export function interpolate(
+  method: InterpolationMethod,
+  target: number,
+  before: PricePoint[],
+  after: PricePoint[]
+): number {
+  const prev = before[before.length - 1];
+  const next = after[0];
+
+  switch (method) {
+    case "previous":
+      return prev.price;
+    case "nearest":
+      return target - prev.timestamp <= next.timestamp - target ? prev.price : next.price;
+    case "log_linear":
+      return logLinear(target, prev, next);
+    case "monotone_cubic":
+      return monotoneCubic(target, [...before, ...after]);
+    case "linear":
+    default:
+      return linear(target, prev, next);
+  }
+}
+
+// Rows on each side of the target used to estimate recent volatility
+export const VOLATILITY_WINDOW = 5;
+
+// Two-sided z-score for the reported error band (~95%)
+const ERROR_BAND_Z = 1.96;
+
+export interface ErrorBand {
+  lower: number;
+  upper: number;
+  confidence: number;
+  volatility_per_day: number;
+}
+
+export interface InterpolationDetails {
+  before: PricePoint;
+  after: PricePoint;
+  gap_seconds: number;
+  error_band: ErrorBand;
+}
+
+/**
+ * Variance of log returns per second across consecutive points, i.e. a
+ * realised-volatility estimate that accounts for uneven spacing.
+ */
+function varianceRate(points: PricePoint[]): number {
+  let sum = 0;
+  let count = 0;
+  for (let i = 1; i < points.length; i++) {
+    const dt = points[i].timestamp - points[i - 1].timestamp;
+    if (dt <= 0 || points[i].price <= 0 || points[i - 1].price <= 0) {
+      continue;
+    }
+    const r = Math.log(points[i].price / points[i - 1].price);
+    sum += (r * r) / dt;
+    count++;
+  }
+  return count > 0 ? sum / count : 0;
+}
+
+/**
+ * Describe how far an interpolated value can be trusted. The band treats the
+ * price between the two bracketing rows as a Brownian bridge whose variance
+ * peaks mid-gap and grows with both the gap width and recent volatility.
+ */
+export function describeInterpolation(
+  target: number,
+  price: number,
+  before: PricePoint[],
+  after: PricePoint[]
+): InterpolationDetails {
+  const prev = before[before.length - 1];
+  const next = after[0];
+  const gap = next.timestamp - prev.timestamp;
+
+  const rate = varianceRate([...before, ...after]);
+  const bridgeVariance = gap > 0
+    ? (rate * (target - prev.timestamp) * (next.timestamp - target)) / gap
+    : 0;
+  const spread = ERROR_BAND_Z * Math.sqrt(bridgeVariance);
+
+  return {
+    before: { timestamp: prev.timestamp, price: prev.price },
+    after: { timestamp: next.timestamp, price: next.price },
+    gap_seconds: gap,
+    error_band: {
+      lower: parseFloat((price * Math.exp(-spread)).toFixed(8)),
+      upper: parseFloat((price * Math.exp(spread)).toFixed(8)),
+      confidence: 0.95,
+      volatility_per_day: parseFloat(Math.sqrt(rate * 86400).toFixed(8)),
+    },
+  };
+}
+
+// What to do when cached rows exist on only one side of the target
+export type ExtrapolationPolicy = "last_known" | "bounded" | "refuse";
+
+export const EXTRAPOLATION_POLICIES: ExtrapolationPolicy[] = ["last_known", "bounded", "refuse"];
+
+export const DEFAULT_EXTRAPOLATION_POLICY: ExtrapolationPolicy = "refuse";
+
+// Furthest an anchor row may be from the target before extrapolation gives up
+export const DEFAULT_MAX_EXTRAPOLATION = 7 * 86400;
+
+export interface ExtrapolationDetails {
+  policy: ExtrapolationPolicy;
+  direction: "forward" | "backward";
+  anchor: PricePoint;
+  staleness_seconds: number;
+}
+
+export function isExtrapolationPolicy(value: unknown): value is ExtrapolationPolicy {
+  return typeof value === "string" && (EXTRAPOLATION_POLICIES as string[]).includes(value);
+}
+
+/**
+ * Project a price beyond the cached rows. `points` are the rows on the one
+ * side that has data, ascending, and must not be empty. "last_known" repeats
+ * the nearest row; "bounded" continues the latest log-linear trend but clamps
+ * the move to the same volatility band used for interpolation.
+ */
+export function extrapolate(
+  policy: Exclude<ExtrapolationPolicy, "refuse">,
+  target: number,
+  points: PricePoint[]
+): number {
+  const forward = target > points[points.length - 1].timestamp;
+  const anchor = forward ? points[points.length - 1] : points[0];
+  const second = forward ? points[points.length - 2] : points[1];
+
+  if (policy === "last_known" || !second || anchor.price <= 0 || second.price <= 0) {
+    return anchor.price;
+  }
+
+  const elapsed = target - anchor.timestamp;
+  const trend = Math.log(anchor.price / second.price) / (anchor.timestamp - second.timestamp);
+  const bound = ERROR_BAND_Z * Math.sqrt(varianceRate(points) * Math.abs(elapsed));
+  const change = Math.max(-bound, Math.min(bound, trend * elapsed));
+  return anchor.price * Math.exp(change);
+}
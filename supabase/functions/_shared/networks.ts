@@ -0,0 +1,23 @@
+// Networks the oracle serves, as stored in the `networks` table. Anything
+// else is rejected before it can reach the cache, so a typo never creates
+// rows under a network nobody queries. Kept free of Deno APIs: the app
+// imports these types.
+
+export interface NetworkInfo {
+  name: string;
+  chain_id: number;
+  display_name: string;
+  // Environment variable holding the network's JSON-RPC endpoint
+  rpc_env: string;
+  native_asset: string;
+  // Timestamp of the first block; nothing can be priced before it
+  genesis_timestamp: number;
+  block_time_seconds: number;
+}
+
+// Enabled networks by name
+export type NetworkRegistry = Record<string, NetworkInfo>;
+
+export function isKnownNetwork(networks: NetworkRegistry, value: unknown): value is string {
+  return typeof value === "string" && Object.prototype.hasOwnProperty.call(networks, value);
+}
@@ -0,0 +1,332 @@
+import { z } from "zod"
+import {
+  BatchPriceRequestSchema,
+  BatchPriceResponseSchema,
+  BlockRequestSchema,
+  BlockResponseSchema,
+  CandleSchema,
+  CandlesRequestSchema,
+  CandlesResponseSchema,
+  ErrorEnvelopeSchema,
+  ExplainLegSchema,
+  ExplainSchema,
+  JobResponseSchema,
+  NetworkListResponseSchema,
+  NetworkResponseSchema,
+  NetworkSchema,
+  PriceRequestSchema,
+  PriceResponseSchema,
+  QuarantineListRequestSchema,
+  QuarantineListResponseSchema,
+  QuarantineReviewRequestSchema,
+  QuarantinedPriceSchema,
+  RangePointSchema,
+  RangeRequestSchema,
+  RangeResponseSchema,
+  ScheduleRequestSchema,
+  ScheduleResponseSchema,
+  TokenResponseSchema,
+  TraceRowSchema,
+  unwrap,
+} from "./schemas.ts"
+
+type JsonSchema = Record<string, unknown>;
+
+// Schemas published under components/schemas; nested uses become $refs
+const COMPONENTS: Record<string, z.ZodTypeAny> = {
+  PriceRequest: PriceRequestSchema,
+  BatchPriceRequest: BatchPriceRequestSchema,
+  PriceResponse: PriceResponseSchema,
+  Explain: ExplainSchema,
+  ExplainLeg: ExplainLegSchema,
+  TraceRow: TraceRowSchema,
+  BatchPriceResponse: BatchPriceResponseSchema,
+  RangeRequest: RangeRequestSchema,
+  RangePoint: RangePointSchema,
+  RangeResponse: RangeResponseSchema,
+  CandlesRequest: CandlesRequestSchema,
+  Candle: CandleSchema,
+  CandlesResponse: CandlesResponseSchema,
+  BlockRequest: BlockRequestSchema,
+  BlockResponse: BlockResponseSchema,
+  ScheduleRequest: ScheduleRequestSchema,
+  ScheduleResponse: ScheduleResponseSchema,
+  JobResponse: JobResponseSchema,
+  NetworkResponse: NetworkResponseSchema,
+  NetworkListResponse: NetworkListResponseSchema,
+  TokenResponse: TokenResponseSchema,
+  QuarantinedPrice: QuarantinedPriceSchema,
+  QuarantineListResponse: QuarantineListResponseSchema,
+  QuarantineReviewRequest: QuarantineReviewRequestSchema,
+  ErrorEnvelope: ErrorEnvelopeSchema,
+};
+
+const componentNames = new Map(Object.entries(COMPONENTS).map(([name, schema]) => [schema, name]));
+
+const ref = (name: string) => ({ $ref: `#/components/schemas/${name}` });
+
+/**
+ * OpenAPI 3.0 schema object for the subset of zod the API schemas use.
+ * Registered components are referenced rather than inlined, except at the
+ * top level of their own definition.
+ */
+function toJsonSchema(schema: z.ZodTypeAny, root = false): JsonSchema {
+  const name = componentNames.get(schema);
+  if (name && !root) return ref(name);
+
+  const described = (body: JsonSchema): JsonSchema =>
+    schema.description ? { ...body, description: schema.description } : body;
+
+  if (schema instanceof z.ZodOptional || schema instanceof z.ZodDefault) {
+    return described(toJsonSchema(schema._def.innerType));
+  }
+  if (schema instanceof z.ZodNullable) {
+    return described({ ...toJsonSchema(schema._def.innerType), nullable: true });
+  }
+  if (schema instanceof z.ZodObject) {
+    const shape = schema.shape as Record<string, z.ZodTypeAny>;
+    const required = Object.keys(shape).filter((key) => !shape[key].isOptional());
+    return described({
+      type: "object",
+      properties: Object.fromEntries(Object.entries(shape).map(([key, value]) => [key, toJsonSchema(value)])),
+      ...(required.length > 0 ? { required } : {}),
+    });
+  }
+  if (schema instanceof z.ZodString) {
+    const regex = schema._def.checks.find((check) => check.kind === "regex");
+    return described({ type: "string", ...(regex?.kind === "regex" ? { pattern: regex.regex.source } : {}) });
+  }
+  if (schema instanceof z.ZodNumber) {
+    const body: JsonSchema = { type: schema.isInt ? "integer" : "number" };
+    if (schema.minValue !== null) body.minimum = schema.minValue;
+    if (schema.maxValue !== null) body.maximum = schema.maxValue;
+    return described(body);
+  }
+  if (schema instanceof z.ZodBoolean) {
+    return described({ type: "boolean" });
+  }
+  if (schema instanceof z.ZodEnum) {
+    return described({ type: "string", enum: schema.options });
+  }
+  if (schema instanceof z.ZodArray) {
+    const body: JsonSchema = { type: "array", items: toJsonSchema(schema.element) };
+    if (schema._def.minLength) body.minItems = schema._def.minLength.value;
+    return described(body);
+  }
+  if (schema instanceof z.ZodUnion) {
+    return described({ oneOf: (schema.options as z.ZodTypeAny[]).map((option) => toJsonSchema(option)) });
+  }
+  if (schema instanceof z.ZodRecord) {
+    return described({ type: "object", additionalProperties: toJsonSchema(schema._def.valueType) });
+  }
+  // z.unknown() and anything else without a JSON Schema counterpart
+  return described({});
+}
+
+function jsonContent(schema: JsonSchema) {
+  return { "application/json": { schema } };
+}
+
+const errorResponses = {
+  "4XX": { description: "Client error", content: jsonContent(ref("ErrorEnvelope")) },
+  "5XX": { description: "Server or provider error", content: jsonContent(ref("ErrorEnvelope")) },
+};
+
+// GET parameters mirror the request body, one query parameter per field
+function queryParameters(schema: z.AnyZodObject) {
+  return Object.entries(schema.shape as Record<string, z.ZodTypeAny>).map(([name, field]) => {
+    const { description, ...fieldSchema } = toJsonSchema(unwrap(field));
+    return {
+      name,
+      in: "query",
+      required: !field.isOptional(),
+      ...(field.description ?? description ? { description: field.description ?? description } : {}),
+      schema: fieldSchema,
+    };
+  });
+}
+
+/**
+ * The OpenAPI 3 document for the versioned API, generated from the same
+ * schemas the functions validate with.
+ */
+export function buildOpenApiDocument(serverUrl = "/functions/v1/api") {
+  return {
+    openapi: "3.0.3",
+    info: {
+      title: "Token Time Oracle API",
+      version: "1.0.0",
+      description: "Historical ERC-20 token prices with interpolation, served from cached rows and price providers.",
+    },
+    servers: [{ url: serverUrl }],
+    paths: {
+      "/v1/price": {
+        get: {
+          summary: "Price of a token at a timestamp",
+          operationId: "getPrice",
+          parameters: queryParameters(PriceRequestSchema),
+          responses: {
+            200: { description: "Price found", content: jsonContent(ref("PriceResponse")) },
+            ...errorResponses,
+          },
+        },
+        post: {
+          summary: "Price of a token at a timestamp, or a batch of lookups",
+          operationId: "postPrice",
+          requestBody: {
+            required: true,
+            content: jsonContent({ oneOf: [ref("PriceRequest"), ref("BatchPriceRequest")] }),
+          },
+          responses: {
+            200: {
+              description: "Price found, or per-item results for a batch",
+              content: jsonContent({ oneOf: [ref("PriceResponse"), ref("BatchPriceResponse")] }),
+            },
+            ...errorResponses,
+          },
+        },
+      },
+      "/v1/range": {
+        get: {
+          summary: "Prices on a UTC grid between two timestamps, a page at a time",
+          operationId: "getRange",
+          parameters: queryParameters(RangeRequestSchema),
+          responses: {
+            200: { description: "One page of the grid", content: jsonContent(ref("RangeResponse")) },
+            ...errorResponses,
+          },
+        },
+        post: {
+          summary: "Prices on a UTC grid between two timestamps, a page at a time",
+          operationId: "postRange",
+          requestBody: { required: true, content: jsonContent(ref("RangeRequest")) },
+          responses: {
+            200: { description: "One page of the grid", content: jsonContent(ref("RangeResponse")) },
+            ...errorResponses,
+          },
+        },
+      },
+      "/v1/candles": {
+        get: {
+          summary: "OHLC candles built from stored prices",
+          operationId: "getCandles",
+          parameters: queryParameters(CandlesRequestSchema),
+          responses: {
+            200: { description: "Candles, oldest first", content: jsonContent(ref("CandlesResponse")) },
+            ...errorResponses,
+          },
+        },
+        post: {
+          summary: "OHLC candles built from stored prices",
+          operationId: "postCandles",
+          requestBody: { required: true, content: jsonContent(ref("CandlesRequest")) },
+          responses: {
+            200: { description: "Candles, oldest first", content: jsonContent(ref("CandlesResponse")) },
+            ...errorResponses,
+          },
+        },
+      },
+      "/v1/block": {
+        get: {
+          summary: "Canonical block at a timestamp",
+          operationId: "getBlock",
+          parameters: queryParameters(BlockRequestSchema),
+          responses: {
+            200: { description: "Block found", content: jsonContent(ref("BlockResponse")) },
+            ...errorResponses,
+          },
+        },
+        post: {
+          summary: "Canonical block at a timestamp",
+          operationId: "postBlock",
+          requestBody: { required: true, content: jsonContent(ref("BlockRequest")) },
+          responses: {
+            200: { description: "Block found", content: jsonContent(ref("BlockResponse")) },
+            ...errorResponses,
+          },
+        },
+      },
+      "/v1/schedule": {
+        post: {
+          summary: "Schedule a backfill of a token's daily history",
+          operationId: "scheduleHistory",
+          requestBody: { required: true, content: jsonContent(ref("ScheduleRequest")) },
+          responses: {
+            200: { description: "Job scheduled", content: jsonContent(ref("ScheduleResponse")) },
+            ...errorResponses,
+          },
+        },
+      },
+      "/v1/jobs/{id}": {
+        get: {
+          summary: "Progress of a scheduled job",
+          operationId: "getJob",
+          parameters: [{ name: "id", in: "path", required: true, schema: { type: "string" } }],
+          responses: {
+            200: { description: "Job status", content: jsonContent(ref("JobResponse")) },
+            ...errorResponses,
+          },
+        },
+      },
+      "/v1/networks": {
+        get: {
+          summary: "Networks the oracle serves",
+          operationId: "listNetworks",
+          responses: {
+            200: { description: "Enabled networks", content: jsonContent(ref("NetworkListResponse")) },
+            ...errorResponses,
+          },
+        },
+      },
+      "/v1/tokens/{network}/{address}": {
+        get: {
+          summary: "Metadata for a token, read on-chain the first time it is seen",
+          operationId: "getToken",
+          parameters: [
+            { name: "network", in: "path", required: true, schema: toJsonSchema(NetworkSchema) },
+            { name: "address", in: "path", required: true, schema: { type: "string" } },
+          ],
+          responses: {
+            200: { description: "Token metadata", content: jsonContent(ref("TokenResponse")) },
+            ...errorResponses,
+          },
+        },
+      },
+      "/v1/admin/quarantine": {
+        get: {
+          summary: "Stored prices quarantined as outliers, for review; requires the service role key",
+          operationId: "listQuarantine",
+          parameters: queryParameters(QuarantineListRequestSchema),
+          responses: {
+            200: { description: "Quarantined prices, newest first", content: jsonContent(ref("QuarantineListResponse")) },
+            ...errorResponses,
+          },
+        },
+      },
+      "/v1/admin/quarantine/{id}": {
+        post: {
+          summary: "Release a quarantined price back into lookups, or reject it; requires the service role key",
+          operationId: "reviewQuarantine",
+          parameters: [{ name: "id", in: "path", required: true, schema: { type: "string" } }],
+          requestBody: { required: true, content: jsonContent(ref("QuarantineReviewRequest")) },
+          responses: {
+            200: { description: "The reviewed price", content: jsonContent(ref("QuarantinedPrice")) },
+            ...errorResponses,
+          },
+        },
+      },
+      "/v1/openapi.json": {
+        get: {
+          summary: "This document",
+          operationId: "getOpenApi",
+          responses: { 200: { description: "OpenAPI 3 document" } },
+        },
+      },
+    },
+    components: {
+      schemas: Object.fromEntries(
+        Object.entries(COMPONENTS).map(([name, schema]) => [name, toJsonSchema(schema, true)])
+      ),
+    },
+  };
+}
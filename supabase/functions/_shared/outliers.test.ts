@@ -0,0 +1,95 @@
+import { assert, assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { OUTLIER_THRESHOLD, PricePoint, outlierScore, screenPoints } from "./outliers.ts";
+
+const HOUR = 3600;
+const DAY = 86400;
+
+// Hourly rows around `start`, alternating a little either side of `price`
+const series = (start: number, count: number, price: number, wobble = 0): PricePoint[] =>
+  Array.from({ length: count }, (_, i) => ({
+    timestamp: start + i * HOUR,
+    price: price * (1 + (i % 2 === 0 ? wobble : -wobble)),
+  }));
+
+const history = series(0, 20, 100, 0.01);
+
+Deno.test("outlierScore is null with too few neighbours", () => {
+  assertEquals(outlierScore(100, [100, 101, 99]), null);
+});
+
+Deno.test("outlierScore is the same at any price level", () => {
+  const neighbours = [100, 102, 98, 101, 99];
+  const score = outlierScore(150, neighbours)!;
+  assert(Math.abs(outlierScore(1.5, neighbours.map((price) => price / 100))! - score) < 1e-9);
+});
+
+Deno.test("a price in line with its history is accepted", () => {
+  const [screening] = screenPoints([{ timestamp: 10.5 * HOUR, price: 100.5 }], history);
+  assertEquals(screening.quarantined, false);
+  assert(screening.outlier_score! < OUTLIER_THRESHOLD);
+});
+
+Deno.test("a one-off spike is quarantined", () => {
+  const [screening] = screenPoints([{ timestamp: 10.5 * HOUR, price: 200 }], history);
+  assertEquals(screening.quarantined, true);
+  assert(screening.outlier_score! > OUTLIER_THRESHOLD);
+});
+
+Deno.test("a stablecoin's usual ticks pass a flat history", () => {
+  const flat = series(0, 20, 1);
+  const [screening] = screenPoints([{ timestamp: 10.5 * HOUR, price: 0.993 }], flat);
+  assertEquals(screening.quarantined, false);
+});
+
+Deno.test("a stablecoin losing its peg is quarantined", () => {
+  const flat = series(0, 20, 1);
+  const [screening] = screenPoints([{ timestamp: 10.5 * HOUR, price: 0.5 }], flat);
+  assertEquals(screening.quarantined, true);
+});
+
+Deno.test("non-positive prices are quarantined unscored", () => {
+  assertEquals(screenPoints([{ timestamp: 10.5 * HOUR, price: 0 }], history), [
+    { outlier_score: null, quarantined: true },
+  ]);
+});
+
+Deno.test("history older than a week does not judge a point", () => {
+  const [screening] = screenPoints([{ timestamp: 30 * DAY, price: 200 }], history);
+  assertEquals(screening, { outlier_score: null, quarantined: false });
+});
+
+Deno.test("a bad point in a batch does not quarantine its neighbours", () => {
+  const points = [
+    { timestamp: 20 * HOUR, price: 500 },
+    { timestamp: 21 * HOUR, price: 100 },
+    { timestamp: 22 * HOUR, price: 100.5 },
+  ];
+  const screening = screenPoints(points, history);
+  assertEquals(screening.map((result) => result.quarantined), [true, false, false]);
+});
+
+Deno.test("a move is accepted once earlier quarantined fetches confirm it", () => {
+  const point = { timestamp: 21 * HOUR, price: 50 };
+  const suspects = [{ timestamp: 20 * HOUR, price: 50.2 }, { timestamp: 20.5 * HOUR, price: 49.9 }];
+
+  assertEquals(screenPoints([point], history, suspects.slice(0, 1))[0].quarantined, true);
+  assertEquals(screenPoints([point], history, suspects)[0].quarantined, false);
+});
+
+Deno.test("suspects that disagree or fall outside the week do not confirm", () => {
+  const point = { timestamp: 21 * HOUR, price: 50 };
+  const disagreeing = [{ timestamp: 20 * HOUR, price: 60 }, { timestamp: 20.5 * HOUR, price: 40 }];
+  const stale = [{ timestamp: 21 * HOUR - 8 * DAY, price: 50 }, { timestamp: 21 * HOUR - 9 * DAY, price: 50 }];
+
+  assertEquals(screenPoints([point], history, disagreeing)[0].quarantined, true);
+  assertEquals(screenPoints([point], history, stale)[0].quarantined, true);
+});
+
+Deno.test("outlying points in one batch confirm each other", () => {
+  const points = [
+    { timestamp: 20 * HOUR, price: 50 },
+    { timestamp: 21 * HOUR, price: 50.3 },
+    { timestamp: 22 * HOUR, price: 49.8 },
+  ];
+  assertEquals(screenPoints(points, history).map((result) => result.quarantined), [false, false, false]);
+});
@@ -0,0 +1,159 @@
+import { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2"
+import { loadSeries, toPriceRow } from "./series.ts"
+
+// Stored rows each new point is compared with, on either side
+const OUTLIER_WINDOW = 10;
+
+// Neighbours further than this from a point are too old to judge it by
+const OUTLIER_WINDOW_SECONDS = 7 * 86400;
+
+// With fewer neighbours than this a point is accepted unscored
+const MIN_NEIGHBOURS = 4;
+
+// Robust z-score above which a point is quarantined
+export const OUTLIER_THRESHOLD = 6;
+
+// Scales the MAD to a standard deviation for normally distributed data
+const MAD_SCALE = 1.4826;
+
+// Floor on the spread in log-price, so a flat series (a stablecoin) still
+// tolerates ticks of about 1% per unit of score
+const MIN_SPREAD = 0.01;
+
+// A suspect point is accepted once this many fetches, itself included, agree
+// on it: a real re-price keeps coming back, a bad tick does not
+const CONFIRMATIONS = 3;
+
+// Largest log-price distance at which two suspect points agree (about 2%)
+const AGREEMENT = 0.02;
+
+// Largest score outlier_score DECIMAL(12, 4) can hold
+const MAX_SCORE = 99999999.9999;
+
+export interface PricePoint {
+  timestamp: number;
+  price: number;
+}
+
+// Columns written alongside a new token_prices row
+export interface Screening {
+  outlier_score: number | null;
+  quarantined: boolean;
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = sorted.length >> 1;
+  return sorted.length % 2 === 1 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+/**
+ * Robust z-score of `price` against its neighbours: distance from their
+ * median over their scaled median absolute deviation. Taken in log-price so
+ * a 10% jump scores the same at any price level. Null when there are too
+ * few neighbours to judge.
+ */
+export function outlierScore(price: number, neighbours: number[]): number | null {
+  const logs = neighbours.filter((value) => value > 0).map(Math.log);
+  if (logs.length < MIN_NEIGHBOURS) return null;
+
+  const centre = median(logs);
+  const spread = Math.max(MAD_SCALE * median(logs.map((value) => Math.abs(value - centre))), MIN_SPREAD);
+  return Math.abs(Math.log(price) - centre) / spread;
+}
+
+const withinWindow = (a: PricePoint, b: PricePoint) =>
+  Math.abs(a.timestamp - b.timestamp) <= OUTLIER_WINDOW_SECONDS;
+
+/**
+ * Score new points against the stored history around them and each other.
+ * Each point sees up to OUTLIER_WINDOW rows on either side within
+ * OUTLIER_WINDOW_SECONDS, itself excluded; the median keeps one bad point in
+ * a batch from hiding another. A point scoring above the threshold is still
+ * accepted when enough earlier suspects (`suspects`, already quarantined)
+ * or other outlying points in the batch agree with it, so a real move is
+ * quarantined only until it is confirmed. Prices that are not positive are
+ * quarantined outright.
+ */
+export function screenPoints(
+  points: PricePoint[],
+  history: PricePoint[],
+  suspects: PricePoint[] = []
+): Screening[] {
+  const merged = [...history, ...points].sort((a, b) => a.timestamp - b.timestamp);
+
+  const scores = points.map((point) => {
+    if (!(point.price > 0)) return null;
+
+    const at = merged.indexOf(point);
+    const neighbours = [
+      ...merged.slice(Math.max(0, at - OUTLIER_WINDOW), at),
+      ...merged.slice(at + 1, at + 1 + OUTLIER_WINDOW),
+    ]
+      .filter((neighbour) => withinWindow(neighbour, point))
+      .map((neighbour) => neighbour.price);
+
+    return outlierScore(point.price, neighbours);
+  });
+
+  const outlying = points.filter((_, i) => scores[i] !== null && scores[i] > OUTLIER_THRESHOLD);
+  const confirmed = (point: PricePoint) =>
+    [...suspects, ...outlying].filter((other) =>
+      other !== point &&
+      other.price > 0 &&
+      withinWindow(other, point) &&
+      Math.abs(Math.log(other.price) - Math.log(point.price)) <= AGREEMENT
+    ).length + 1 >= CONFIRMATIONS;
+
+  return points.map((point, i) => {
+    if (!(point.price > 0)) return { outlier_score: null, quarantined: true };
+
+    const score = scores[i];
+    return {
+      outlier_score: score === null ? null : parseFloat(Math.min(score, MAX_SCORE).toFixed(4)),
+      quarantined: score !== null && score > OUTLIER_THRESHOLD && !confirmed(point),
+    };
+  });
+}
+
+/**
+ * Screen prices about to be stored for a token in one quote against its
+ * unquarantined rows, and against the quarantined rows still awaiting
+ * review as possible confirmations.
+ */
+export async function screenPrices(
+  supabase: SupabaseClient,
+  token: string,
+  network: string,
+  quote: string,
+  points: PricePoint[]
+): Promise<Screening[]> {
+  if (points.length === 0) return [];
+
+  const timestamps = points.map((point) => point.timestamp);
+  const history = await loadSeries(
+    supabase,
+    token,
+    network,
+    quote,
+    Math.min(...timestamps),
+    Math.max(...timestamps),
+    OUTLIER_WINDOW
+  );
+
+  const { data: suspects, error } = await supabase
+    .from("token_prices")
+    .select("timestamp, price")
+    .eq("token_address", token)
+    .eq("network", network)
+    .eq("quote", quote)
+    .eq("quarantined", true)
+    .is("review", null)
+    .gte("timestamp", Math.min(...timestamps) - OUTLIER_WINDOW_SECONDS)
+    .lte("timestamp", Math.max(...timestamps) + OUTLIER_WINDOW_SECONDS)
+    .order("timestamp", { ascending: false })
+    .limit(OUTLIER_WINDOW)
+  if (error) throw error;
+
+  return screenPoints(points, history, (suspects as PricePoint[]).map(toPriceRow));
+}
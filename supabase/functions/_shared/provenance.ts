@@ -0,0 +1,27 @@
+import { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2"
+
+// Where a stored token_prices row came from
+export interface ProvenanceRecord {
+  token_price_id: string;
+  provider: string;
+  raw_payload: unknown;
+  // When the provider was asked; defaults to the time of writing
+  fetched_at?: string;
+  job_id?: string;
+}
+
+/**
+ * Link freshly stored prices to their source. Failures are logged rather
+ * than thrown: the prices themselves are already written.
+ */
+export async function recordProvenance(supabase: SupabaseClient, records: ProvenanceRecord[]): Promise<void> {
+  if (records.length === 0) return;
+
+  const { error } = await supabase
+    .from("price_provenance")
+    .upsert(
+      records.map((record) => ({ ...record, raw_payload: record.raw_payload ?? null })),
+      { onConflict: "token_price_id", ignoreDuplicates: true }
+    )
+  if (error) console.warn("Failed to record price provenance:", error);
+}
@@ -0,0 +1,148 @@
+import {
+  INTERVAL_RESOLUTION,
+  INTERVAL_SECONDS,
+  PriceInterval,
+  PriceProvider,
+  ProviderError,
+  ProviderQuote,
+  nearestQuote,
+} from "./provider.ts"
+import { fetchWithRetry } from "./http.ts"
+
+const ALCHEMY_PRICES_URL = "https://api.g.alchemy.com/prices/v1";
+
+// Alchemy network identifiers for the networks the oracle understands
+const ALCHEMY_NETWORKS: Record<string, string> = {
+  ethereum: "eth-mainnet",
+  polygon: "polygon-mainnet",
+  arbitrum: "arb-mainnet",
+  optimism: "opt-mainnet",
+  base: "base-mainnet",
+  bnb: "bnb-mainnet",
+  avalanche: "avax-mainnet",
+};
+
+// Longest window Alchemy serves in one historical request, per interval
+const MAX_SPAN_SECONDS: Record<PriceInterval, number> = {
+  "5m": 7 * 86400,
+  "1h": 30 * 86400,
+  "1d": 365 * 86400,
+};
+
+interface AlchemyHistoricalResponse {
+  symbol?: string | null;
+  currency: string;
+  data: Array<{ value: string; timestamp: string }>;
+}
+
+export interface AlchemyProviderOptions {
+  apiKey: string;
+  baseUrl?: string;
+  fetch?: typeof fetch;
+}
+
+/**
+ * Historical prices from the Alchemy Prices API
+ * (POST /prices/v1/{apiKey}/tokens/historical).
+ */
+export class AlchemyProvider implements PriceProvider {
+  readonly name = "alchemy";
+
+  private readonly apiKey: string;
+  private readonly baseUrl: string;
+  private readonly fetchImpl: typeof fetch;
+
+  constructor({ apiKey, baseUrl = ALCHEMY_PRICES_URL, fetch: fetchImpl = fetch }: AlchemyProviderOptions) {
+    this.apiKey = apiKey;
+    this.baseUrl = baseUrl;
+    this.fetchImpl = fetchImpl;
+  }
+
+  async getPrice(token: string, network: string, timestamp: number): Promise<ProviderQuote | null> {
+    // Hourly candles around the target, falling back to daily for older history
+    const hourly = await this.getPriceSeries(token, network, timestamp - 86400, timestamp + 86400, "1h");
+    const quote = nearestQuote(hourly, timestamp, INTERVAL_SECONDS["1h"]);
+    if (quote) return quote;
+
+    const daily = await this.getPriceSeries(token, network, timestamp - 2 * 86400, timestamp + 2 * 86400, "1d");
+    return nearestQuote(daily, timestamp, INTERVAL_SECONDS["1d"]);
+  }
+
+  async getPriceSeries(
+    token: string,
+    network: string,
+    from: number,
+    to: number,
+    interval: PriceInterval
+  ): Promise<ProviderQuote[]> {
+    const alchemyNetwork = ALCHEMY_NETWORKS[network];
+    if (!alchemyNetwork) {
+      throw new ProviderError(this.name, "unsupported_network", `Network ${network} is not supported`);
+    }
+
+    // Page through the range in windows Alchemy will accept
+    const quotes: ProviderQuote[] = [];
+    const span = MAX_SPAN_SECONDS[interval];
+    for (let start = from; start <= to; start += span) {
+      const end = Math.min(start + span, to);
+      const page = await this.fetchHistorical(alchemyNetwork, token, start, end, interval);
+      for (const quote of page) {
+        if (quotes.length === 0 || quote.timestamp > quotes[quotes.length - 1].timestamp) {
+          quotes.push(quote);
+        }
+      }
+    }
+    return quotes;
+  }
+
+  private async fetchHistorical(
+    network: string,
+    address: string,
+    from: number,
+    to: number,
+    interval: PriceInterval
+  ): Promise<ProviderQuote[]> {
+    const body = JSON.stringify({
+      network,
+      address,
+      startTime: new Date(from * 1000).toISOString(),
+      endTime: new Date(to * 1000).toISOString(),
+      interval,
+    });
+
+    const url = `${this.baseUrl}/${this.apiKey}/tokens/historical`;
+    const res = await fetchWithRetry(this.name, this.fetchImpl, url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", Accept: "application/json" },
+      body,
+    });
+
+    if (res.status === 401 || res.status === 403) {
+      throw new ProviderError(this.name, "unauthorized", "API key rejected", res.status);
+    }
+
+    // Alchemy answers unknown tokens with 400/404; treat that as no coverage
+    if (res.status === 400 || res.status === 404) {
+      return [];
+    }
+
+    if (!res.ok) {
+      throw new ProviderError(this.name, "bad_response", `Unexpected HTTP ${res.status}`, res.status);
+    }
+
+    const payload = (await res.json()) as AlchemyHistoricalResponse;
+    if (!Array.isArray(payload?.data)) {
+      throw new ProviderError(this.name, "bad_response", "Response is missing the data array");
+    }
+
+    return payload.data
+      .map((point) => ({
+        timestamp: Math.floor(Date.parse(point.timestamp) / 1000),
+        price: parseFloat(point.value),
+        resolution: INTERVAL_RESOLUTION[interval],
+        raw: point,
+      }))
+      .filter((quote) => Number.isFinite(quote.timestamp) && Number.isFinite(quote.price))
+      .sort((a, b) => a.timestamp - b.timestamp);
+  }
+}
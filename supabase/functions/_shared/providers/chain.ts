@@ -0,0 +1,98 @@
+import {
+  PriceInterval,
+  PriceProvider,
+  ProviderError,
+  ProviderErrorCode,
+  ProviderName,
+  ProviderQuote,
+} from "./provider.ts"
+
+// A quote tagged with the provider that produced it
+export interface SourcedQuote extends ProviderQuote {
+  source: ProviderName;
+}
+
+// One provider tried by the chain, in order
+export interface ProviderAttempt {
+  provider: ProviderName;
+  outcome: "price" | "no_data" | "error";
+  error?: ProviderErrorCode;
+}
+
+/**
+ * Tries each provider in order and returns the first answer. A provider
+ * that throws or has no coverage is skipped; if every provider fails and
+ * at least one threw, the failures are reported together.
+ */
+export class ProviderChain implements PriceProvider {
+  readonly name = "chain";
+
+  constructor(readonly providers: PriceProvider[]) {}
+
+  // Each provider tried is appended to `attempts` when one is given
+  getPrice(
+    token: string,
+    network: string,
+    timestamp: number,
+    attempts?: ProviderAttempt[]
+  ): Promise<SourcedQuote | null> {
+    return this.firstAnswer(
+      async (provider) => {
+        const quote = await provider.getPrice(token, network, timestamp);
+        return quote ? { ...quote, source: provider.name as ProviderName } : null;
+      },
+      null,
+      attempts
+    );
+  }
+
+  getPriceSeries(
+    token: string,
+    network: string,
+    from: number,
+    to: number,
+    interval: PriceInterval
+  ): Promise<SourcedQuote[]> {
+    return this.firstAnswer(
+      async (provider) => {
+        const quotes = await provider.getPriceSeries(token, network, from, to, interval);
+        return quotes.length > 0 ? quotes.map((quote) => ({ ...quote, source: provider.name as ProviderName })) : null;
+      },
+      []
+    );
+  }
+
+  private async firstAnswer<T>(
+    attempt: (provider: PriceProvider) => Promise<T | null>,
+    empty: T,
+    attempts: ProviderAttempt[] = []
+  ): Promise<T> {
+    const failures: ProviderError[] = [];
+
+    for (const provider of this.providers) {
+      const name = provider.name as ProviderName;
+      try {
+        const result = await attempt(provider);
+        attempts.push({ provider: name, outcome: result !== null ? "price" : "no_data" });
+        if (result !== null) return result;
+      } catch (error) {
+        console.warn(`Price provider ${provider.name} failed:`, error);
+        const failure = error instanceof ProviderError
+          ? error
+          : new ProviderError(provider.name, "unavailable", error.message);
+        failures.push(failure);
+        attempts.push({ provider: name, outcome: "error", error: failure.code });
+      }
+    }
+
+    if (failures.length === 0) {
+      return empty;
+    }
+
+    // Only report rate limiting when that is the sole reason nothing answered
+    const code: ProviderErrorCode = failures.every((failure) => failure.code === "rate_limited")
+      ? "rate_limited"
+      : failures[failures.length - 1].code;
+    throw new ProviderError(this.name, code, failures.map((failure) => failure.message).join("; "));
+  }
+}
@@ -0,0 +1,119 @@
+import {
+  INTERVAL_SECONDS,
+  PriceInterval,
+  PriceProvider,
+  ProviderError,
+  ProviderQuote,
+  Resolution,
+  nearestQuote,
+} from "./provider.ts"
+import { fetchWithRetry } from "./http.ts"
+
+// Demo keys (and keyless calls) use the public host; pro keys only work on the pro host
+export type CoinGeckoPlan = "demo" | "pro";
+
+const COINGECKO_HOSTS: Record<CoinGeckoPlan, { baseUrl: string; keyHeader: string }> = {
+  demo: { baseUrl: "https://api.coingecko.com/api/v3", keyHeader: "x-cg-demo-api-key" },
+  pro: { baseUrl: "https://pro-api.coingecko.com/api/v3", keyHeader: "x-cg-pro-api-key" },
+};
+
+// Longest span the API still answers with hourly points
+const HOURLY_SPAN = 90 * 86400;
+
+// CoinGecko asset platform ids for the networks the oracle understands
+const COINGECKO_PLATFORMS: Record<string, string> = {
+  ethereum: "ethereum",
+  polygon: "polygon-pos",
+  arbitrum: "arbitrum-one",
+  optimism: "optimistic-ethereum",
+  base: "base",
+  bnb: "binance-smart-chain",
+  avalanche: "avalanche",
+};
+
+interface MarketChartResponse {
+  prices: Array<[number, number]>;
+}
+
+export interface CoinGeckoProviderOptions {
+  apiKey?: string;
+  // Which kind of key apiKey is; picks the host and header. Default demo
+  plan?: CoinGeckoPlan;
+  // Overrides the plan's host, e.g. for a compatible mirror
+  baseUrl?: string;
+  fetch?: typeof fetch;
+}
+
+/**
+ * Historical prices from a CoinGecko-compatible API
+ * (GET /coins/{platform}/contract/{address}/market_chart/range).
+ * Granularity is chosen by the API from the span: hourly up to 90 days,
+ * daily beyond that.
+ */
+export class CoinGeckoProvider implements PriceProvider {
+  readonly name = "coingecko";
+
+  private readonly apiKey?: string;
+  private readonly keyHeader: string;
+  private readonly baseUrl: string;
+  private readonly fetchImpl: typeof fetch;
+
+  constructor({ apiKey, plan = "demo", baseUrl, fetch: fetchImpl = fetch }: CoinGeckoProviderOptions = {}) {
+    const host = COINGECKO_HOSTS[plan];
+    this.apiKey = apiKey;
+    this.keyHeader = host.keyHeader;
+    this.baseUrl = baseUrl ?? host.baseUrl;
+    this.fetchImpl = fetchImpl;
+  }
+
+  async getPrice(token: string, network: string, timestamp: number): Promise<ProviderQuote | null> {
+    const quotes = await this.getPriceSeries(token, network, timestamp - 86400, timestamp + 86400, "1h");
+    return nearestQuote(quotes, timestamp, INTERVAL_SECONDS["1h"]);
+  }
+
+  async getPriceSeries(
+    token: string,
+    network: string,
+    from: number,
+    to: number,
+    _interval: PriceInterval
+  ): Promise<ProviderQuote[]> {
+    const platform = COINGECKO_PLATFORMS[network];
+    if (!platform) {
+      throw new ProviderError(this.name, "unsupported_network", `Network ${network} is not supported`);
+    }
+
+    const params = new URLSearchParams({ vs_currency: "usd", from: String(from), to: String(to) });
+    const url = `${this.baseUrl}/coins/${platform}/contract/${token.toLowerCase()}/market_chart/range?${params}`;
+    const headers: Record<string, string> = { Accept: "application/json" };
+    if (this.apiKey) {
+      headers[this.keyHeader] = this.apiKey;
+    }
+
+    const res = await fetchWithRetry(this.name, this.fetchImpl, url, { headers });
+
+    if (res.status === 401 || res.status === 403) {
+      throw new ProviderError(this.name, "unauthorized", "API key rejected", res.status);
+    }
+
+    // Unknown contracts come back as 404
+    if (res.status === 404) {
+      return [];
+    }
+
+    if (!res.ok) {
+      throw new ProviderError(this.name, "bad_response", `Unexpected HTTP ${res.status}`, res.status);
+    }
+
+    const payload = (await res.json()) as MarketChartResponse;
+    if (!Array.isArray(payload?.prices)) {
+      throw new ProviderError(this.name, "bad_response", "Response is missing the prices array");
+    }
+
+    const resolution: Resolution = to - from <= HOURLY_SPAN ? "hour" : "day";
+    return payload.prices
+      .map(([ms, price]) => ({ timestamp: Math.floor(ms / 1000), price, resolution, raw: [ms, price] }))
+      .filter((quote) => Number.isFinite(quote.timestamp) && Number.isFinite(quote.price))
+      .sort((a, b) => a.timestamp - b.timestamp);
+  }
+}
@@ -0,0 +1,52 @@
+import { ProviderQuote } from "./provider.ts"
+
+/**
+ * Offline price history for the stub provider, keyed by network and then
+ * lowercased token address. Daily closes at 00:00 UTC.
+ */
+export const PRICE_FIXTURES: Record<string, Record<string, ProviderQuote[]>> = {
+  ethereum: {
+    // USDC
+    "0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48": [
+      { timestamp: 1704067200, price: 1.0001 },
+      { timestamp: 1704153600, price: 0.9998 },
+      { timestamp: 1704240000, price: 1.0002 },
+      { timestamp: 1704326400, price: 0.9999 },
+      { timestamp: 1704412800, price: 1.0 },
+      { timestamp: 1704499200, price: 1.0001 },
+      { timestamp: 1704585600, price: 0.9997 },
+    ],
+    // WETH
+    "0xc02aaa39b223fe8d0a0e5c4f27ead9083c756cc2": [
+      { timestamp: 1704067200, price: 2281.47 },
+      { timestamp: 1704153600, price: 2352.1 },
+      { timestamp: 1704240000, price: 2209.63 },
+      { timestamp: 1704326400, price: 2268.82 },
+      { timestamp: 1704412800, price: 2268.54 },
+      { timestamp: 1704499200, price: 2240.9 },
+      { timestamp: 1704585600, price: 2221.7 },
+    ],
+    // UNI
+    "0x1f9840a85d5af5bf1d1762f925bdaddc4201f984": [
+      { timestamp: 1704067200, price: 6.62 },
+      { timestamp: 1704153600, price: 7.06 },
+      { timestamp: 1704240000, price: 6.36 },
+      { timestamp: 1704326400, price: 6.49 },
+      { timestamp: 1704412800, price: 6.37 },
+      { timestamp: 1704499200, price: 6.3 },
+      { timestamp: 1704585600, price: 6.12 },
+    ],
+  },
+  polygon: {
+    // USDC.e
+    "0x2791bca1f2de4661ed88a30c99a7a9449aa84174": [
+      { timestamp: 1704067200, price: 1.0 },
+      { timestamp: 1704153600, price: 0.9999 },
+      { timestamp: 1704240000, price: 1.0003 },
+      { timestamp: 1704326400, price: 1.0 },
+      { timestamp: 1704412800, price: 0.9998 },
+      { timestamp: 1704499200, price: 1.0001 },
+      { timestamp: 1704585600, price: 1.0 },
+    ],
+  },
+};
@@ -0,0 +1,56 @@
+import { ProviderError } from "./provider.ts"
+
+const MAX_RETRIES = 3;
+const BASE_BACKOFF_MS = 1000;
+
+// Requests wait on these retries, so a provider asking for a longer pause,
+// or one that has used up the budget, is given up on and the chain moves on
+const MAX_RETRY_WAIT_MS = 5000;
+const RETRY_BUDGET_MS = 10000;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * fetch() with the retry policy shared by HTTP price providers: 429 and 5xx
+ * responses are retried with Retry-After or exponential backoff, and
+ * transport failures become ProviderError("unavailable"). No single wait
+ * exceeds MAX_RETRY_WAIT_MS and all waits together stay within
+ * RETRY_BUDGET_MS; past either, the last response's error is thrown at once.
+ */
+export async function fetchWithRetry(
+  provider: string,
+  fetchImpl: typeof fetch,
+  url: string,
+  init: RequestInit = {}
+): Promise<Response> {
+  let waited = 0;
+  for (let attempt = 0; ; attempt++) {
+    let res: Response;
+    try {
+      res = await fetchImpl(url, init);
+    } catch (error) {
+      throw new ProviderError(provider, "unavailable", `Request failed: ${error.message}`);
+    }
+
+    if (res.status !== 429 && res.status < 500) {
+      return res;
+    }
+
+    // The body is never read; release the connection before waiting or giving up
+    await res.body?.cancel();
+
+    const retryAfter = Number(res.headers.get("Retry-After"));
+    const wait = retryAfter > 0 ? retryAfter * 1000 : BASE_BACKOFF_MS * 2 ** attempt;
+    if (attempt >= MAX_RETRIES || wait > MAX_RETRY_WAIT_MS || waited + wait > RETRY_BUDGET_MS) {
+      throw new ProviderError(
+        provider,
+        res.status === 429 ? "rate_limited" : "unavailable",
+        `Gave up after ${attempt} retries (HTTP ${res.status})`,
+        res.status
+      );
+    }
+
+    waited += wait;
+    await sleep(wait);
+  }
+}
@@ -0,0 +1,89 @@
+import { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2"
+import { resolveBlock } from "../blocks.ts"
+import { AlchemyProvider } from "./alchemy.ts"
+import { ProviderChain } from "./chain.ts"
+import { CoinGeckoProvider } from "./coingecko.ts"
+import { NetworkRegistry } from "../networks.ts"
+import { JsonRpcClient, rpcUrlFor } from "../rpc.ts"
+import { PriceProvider, ProviderName, isProviderName } from "./provider.ts"
+import { StubProvider } from "./stub.ts"
+import { UniswapProvider } from "./uniswap.ts"
+
+export * from "./provider.ts"
+export { AlchemyProvider } from "./alchemy.ts"
+export { ProviderChain } from "./chain.ts"
+export type { ProviderAttempt, SourcedQuote } from "./chain.ts"
+export { CoinGeckoProvider } from "./coingecko.ts"
+export { StubProvider } from "./stub.ts"
+export { UniswapProvider } from "./uniswap.ts"
+export type { BlockLookup } from "./uniswap.ts"
+
+const DEFAULT_PROVIDERS = "alchemy,coingecko,uniswap";
+
+// What the factories need from the calling function
+export interface ProviderContext {
+  supabase: SupabaseClient;
+  // Registry from loadNetworks(), naming each network's RPC endpoint
+  networks: NetworkRegistry;
+}
+
+// Each factory returns null when the provider is not configured
+const PROVIDER_FACTORIES: Record<ProviderName, (context: ProviderContext) => PriceProvider | null> = {
+  alchemy: () => {
+    const apiKey = Deno.env.get("ALCHEMY_API_KEY");
+    return apiKey ? new AlchemyProvider({ apiKey }) : null;
+  },
+  coingecko: () =>
+    new CoinGeckoProvider({
+      apiKey: Deno.env.get("COINGECKO_API_KEY"),
+      plan: Deno.env.get("COINGECKO_API_PLAN") === "pro" ? "pro" : "demo",
+      baseUrl: Deno.env.get("COINGECKO_API_URL") || undefined,
+    }),
+  // One client per enabled network with an RPC endpoint configured
+  uniswap: ({ supabase, networks }) => {
+    const clients: Record<string, JsonRpcClient> = {};
+    for (const network of Object.values(networks)) {
+      const url = rpcUrlFor(network);
+      if (url) clients[network.name] = new JsonRpcClient(url);
+    }
+    return Object.keys(clients).length > 0
+      ? new UniswapProvider(clients, (network, timestamp) => resolveBlock(supabase, network, timestamp))
+      : null;
+  },
+  stub: () => new StubProvider(),
+};
+
+/**
+ * Build the fallback chain named by PRICE_PROVIDERS, a comma-separated list
+ * in priority order (default "alchemy,coingecko,uniswap"). Passing `only`
+ * restricts the chain to that single provider, for callers that ask for a
+ * specific source. Unconfigured providers are left out; throws when nothing
+ * usable remains.
+ */
+export function createPriceProvider(context: ProviderContext, only?: ProviderName): ProviderChain {
+  const names = only
+    ? [only]
+    : (Deno.env.get("PRICE_PROVIDERS") ?? DEFAULT_PROVIDERS)
+      .split(",")
+      .map((name) => name.trim())
+      .filter(Boolean);
+
+  const providers: PriceProvider[] = [];
+  for (const name of names) {
+    if (!isProviderName(name)) {
+      throw new Error(`Unknown price provider: ${name}`);
+    }
+    const factory = PROVIDER_FACTORIES[name];
+    const provider = factory(context);
+    if (provider) {
+      providers.push(provider);
+    } else {
+      console.warn(`Price provider ${name} is not configured; skipping`);
+    }
+  }
+
+  if (providers.length === 0) {
+    throw new Error("No price providers configured");
+  }
+  return new ProviderChain(providers);
+}
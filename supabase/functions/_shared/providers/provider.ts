@@ -0,0 +1,92 @@
+export type PriceInterval = "5m" | "1h" | "1d";
+
+// Names of the concrete providers, as reported in PriceResponse.source
+export type ProviderName = "alchemy" | "coingecko" | "uniswap" | "stub";
+
+export const PROVIDER_NAMES: ProviderName[] = ["alchemy", "coingecko", "uniswap", "stub"];
+
+// Providers a request may name. The stub serves fixtures, which must never be
+// stored as real prices, so it is only reachable through PRICE_PROVIDERS.
+export const REQUESTABLE_PROVIDERS: ProviderName[] = PROVIDER_NAMES.filter((name) => name !== "stub");
+
+export function isProviderName(value: unknown): value is ProviderName {
+  return typeof value === "string" && (PROVIDER_NAMES as string[]).includes(value);
+}
+
+// How finely a quote was sampled, finest first
+export type Resolution = "minute" | "hour" | "day";
+
+export const RESOLUTIONS: Resolution[] = ["minute", "hour", "day"];
+
+export interface ProviderQuote {
+  timestamp: number;
+  price: number;
+  // Daily when omitted
+  resolution?: Resolution;
+  // The provider's own record of this price, kept as provenance
+  raw?: unknown;
+}
+
+/**
+ * A source of historical USD prices. Implementations return null / empty
+ * arrays when they simply have no coverage for a token, and throw
+ * ProviderError when the source itself misbehaves.
+ */
+export interface PriceProvider {
+  readonly name: string;
+  getPrice(token: string, network: string, timestamp: number): Promise<ProviderQuote | null>;
+  getPriceSeries(
+    token: string,
+    network: string,
+    from: number,
+    to: number,
+    interval: PriceInterval
+  ): Promise<ProviderQuote[]>;
+}
+
+export type ProviderErrorCode =
+  | "unauthorized"
+  | "unsupported_network"
+  | "rate_limited"
+  | "unavailable"
+  | "bad_response";
+
+export class ProviderError extends Error {
+  constructor(
+    readonly provider: string,
+    readonly code: ProviderErrorCode,
+    message: string,
+    readonly status?: number
+  ) {
+    super(`${provider}: ${message}`);
+    this.name = "ProviderError";
+  }
+}
+
+export const INTERVAL_SECONDS: Record<PriceInterval, number> = {
+  "5m": 300,
+  "1h": 3600,
+  "1d": 86400,
+};
+
+export const INTERVAL_RESOLUTION: Record<PriceInterval, Resolution> = {
+  "5m": "minute",
+  "1h": "hour",
+  "1d": "day",
+};
+
+// Closest quote to `timestamp`, ignoring anything further than `maxDistance`
+export function nearestQuote<Q extends ProviderQuote>(
+  quotes: Q[],
+  timestamp: number,
+  maxDistance: number
+): Q | null {
+  let best: Q | null = null;
+  for (const quote of quotes) {
+    const distance = Math.abs(quote.timestamp - timestamp);
+    if (distance <= maxDistance && (!best || distance < Math.abs(best.timestamp - timestamp))) {
+      best = quote;
+    }
+  }
+  return best;
+}
@@ -0,0 +1,42 @@
+import { PRICE_FIXTURES } from "./fixtures.ts"
+import {
+  INTERVAL_SECONDS,
+  PriceInterval,
+  PriceProvider,
+  ProviderQuote,
+  nearestQuote,
+} from "./provider.ts"
+
+/**
+ * Serves prices from in-memory fixtures so the functions can run without
+ * network access or API keys. Select it with PRICE_PROVIDERS=stub.
+ */
+export class StubProvider implements PriceProvider {
+  readonly name = "stub";
+
+  constructor(
+    private readonly fixtures: Record<string, Record<string, ProviderQuote[]>> = PRICE_FIXTURES
+  ) {}
+
+  private series(token: string, network: string): ProviderQuote[] {
+    return this.fixtures[network]?.[token.toLowerCase()] ?? [];
+  }
+
+  getPrice(token: string, network: string, timestamp: number): Promise<ProviderQuote | null> {
+    return Promise.resolve(
+      nearestQuote(this.series(token, network), timestamp, INTERVAL_SECONDS["1d"])
+    );
+  }
+
+  getPriceSeries(
+    token: string,
+    network: string,
+    from: number,
+    to: number,
+    _interval: PriceInterval
+  ): Promise<ProviderQuote[]> {
+    return Promise.resolve(
+      this.series(token, network).filter((quote) => quote.timestamp >= from && quote.timestamp <= to)
+    );
+  }
+}
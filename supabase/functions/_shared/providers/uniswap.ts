@@ -0,0 +1,272 @@
+import {
+  BlockHeader,
+  BlockTag,
+  JsonRpcClient,
+  RpcError,
+  ZERO_ADDRESS,
+  decodeAddress,
+  decodeWord,
+  encodeAddress,
+  encodeUint,
+} from "../rpc.ts"
+import {
+  INTERVAL_SECONDS,
+  PriceInterval,
+  PriceProvider,
+  ProviderError,
+  ProviderQuote,
+} from "./provider.ts"
+
+// Function selectors
+const GET_PAIR = "0xe6a43905";
+const GET_POOL = "0x1698ee82";
+const GET_RESERVES = "0x0902f1ac";
+const SLOT0 = "0x3850c7bd";
+const LIQUIDITY = "0x1a686502";
+const TOKEN0 = "0x0dfe1681";
+const DECIMALS = "0x313ce567";
+
+const V3_FEE_TIERS = [500, 3000, 10000];
+
+interface UniswapDeployment {
+  v2Factory?: string;
+  v3Factory?: string;
+  usdc: string;
+  weth: string;
+}
+
+// Factories and quote assets per network; Polygon's V2 factory is QuickSwap.
+// `weth` is the wrapped native asset (WBNB on BNB Chain, WAVAX on Avalanche).
+const DEPLOYMENTS: Record<string, UniswapDeployment> = {
+  ethereum: {
+    v2Factory: "0x5c69bee701ef814a2b6a3edd4b1652cb9cc5aa6f",
+    v3Factory: "0x1f98431c8ad98523631ae4a59f267346ea31f984",
+    usdc: "0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48",
+    weth: "0xc02aaa39b223fe8d0a0e5c4f27ead9083c756cc2",
+  },
+  polygon: {
+    v2Factory: "0x5757371414417b8c6caad45baef941abc7d3ab32",
+    v3Factory: "0x1f98431c8ad98523631ae4a59f267346ea31f984",
+    usdc: "0x2791bca1f2de4661ed88a30c99a7a9449aa84174",
+    weth: "0x7ceb23fd6bc0add59e62ac25578270cff1b9f619",
+  },
+  arbitrum: {
+    v3Factory: "0x1f98431c8ad98523631ae4a59f267346ea31f984",
+    usdc: "0xaf88d065e77c8cc2239327c5edb3a432268e5831",
+    weth: "0x82af49447d8a07e3bd95bd0d56f35241523fbab1",
+  },
+  optimism: {
+    v3Factory: "0x1f98431c8ad98523631ae4a59f267346ea31f984",
+    usdc: "0x0b2c639c533813f4aa9d7837caf62653d097ff85",
+    weth: "0x4200000000000000000000000000000000000006",
+  },
+  base: {
+    v3Factory: "0x33128a8fc17869897dce68ed026d694621f6fdfd",
+    usdc: "0x833589fcd6edb6e08f4c7c32d4f71b54bda02913",
+    weth: "0x4200000000000000000000000000000000000006",
+  },
+  bnb: {
+    v3Factory: "0xdb1d10011ad0ff90774d0c6bb92e5c5c8b4461f7",
+    usdc: "0x8ac76a51cc950d9822d68b83fe1ad97b32cd580d",
+    weth: "0xbb4cdb9cbd36b01bd8cbaef60ad8c413e3aa7c6a",
+  },
+  avalanche: {
+    v3Factory: "0x740b1c1de25031c31ff4fc9a62f554a55cdc1bad",
+    usdc: "0xb97ef9ef8734c71904d8002f8b6bc66dd9c48a6e",
+    weth: "0xb31f66aa3c1e785363f0875a1b74e27b85fd66c7",
+  },
+};
+
+const Q96 = 2 ** 96;
+
+// Least quote-side liquidity, in USD, a pool needs before its price is used;
+// thinner pools can be pushed to any price for next to nothing
+const MIN_POOL_DEPTH_USD = 10_000;
+
+// A pool's price for `base` in units of `quote`, and how much `quote` backs it
+interface PoolQuote {
+  price: number;
+  depth: number;
+}
+
+// Canonical block at a timestamp on a network; null before the chain began
+export type BlockLookup = (network: string, timestamp: number) => Promise<BlockHeader | null>;
+
+/**
+ * Derives USD prices from Uniswap pool state at the block nearest the
+ * requested time: `slot0` on V3 pools and `getReserves` on V2 pairs, quoted
+ * against USDC directly or through WETH. Needs an archive-capable RPC
+ * endpoint per network. Blocks come from `blockAt`, normally resolveBlock,
+ * so searches are bounded by cached headers and cache what they visit.
+ */
+export class UniswapProvider implements PriceProvider {
+  readonly name = "uniswap";
+
+  private readonly decimals = new Map<string, number>();
+
+  constructor(
+    private readonly clients: Record<string, JsonRpcClient>,
+    private readonly blockAt: BlockLookup
+  ) {}
+
+  async getPrice(token: string, network: string, timestamp: number): Promise<ProviderQuote | null> {
+    const { client, deployment } = this.resolve(network);
+
+    try {
+      const block = await this.blockAt(network, timestamp);
+      if (!block) return null;
+
+      const price = await this.usdPrice(client, deployment, token.toLowerCase(), block.number);
+      // Pool state is read at a single block, finer than any candle
+      return price === null
+        ? null
+        : { timestamp: block.timestamp, price, resolution: "minute", raw: { block: block.number, network } };
+    } catch (error) {
+      if (error instanceof RpcError) {
+        throw new ProviderError(this.name, "unavailable", error.message, error.code);
+      }
+      throw error;
+    }
+  }
+
+  async getPriceSeries(
+    token: string,
+    network: string,
+    from: number,
+    to: number,
+    interval: PriceInterval
+  ): Promise<ProviderQuote[]> {
+    const quotes: ProviderQuote[] = [];
+    for (let timestamp = from; timestamp <= to; timestamp += INTERVAL_SECONDS[interval]) {
+      const quote = await this.getPrice(token, network, timestamp);
+      if (quote && (quotes.length === 0 || quote.timestamp > quotes[quotes.length - 1].timestamp)) {
+        quotes.push(quote);
+      }
+    }
+    return quotes;
+  }
+
+  private resolve(network: string): { client: JsonRpcClient; deployment: UniswapDeployment } {
+    const client = this.clients[network];
+    const deployment = DEPLOYMENTS[network];
+    if (!client || !deployment) {
+      throw new ProviderError(this.name, "unsupported_network", `Network ${network} is not supported`);
+    }
+    return { client, deployment };
+  }
+
+  private async usdPrice(
+    client: JsonRpcClient,
+    deployment: UniswapDeployment,
+    token: string,
+    block: number
+  ): Promise<number | null> {
+    const { usdc, weth } = deployment;
+    if (token === usdc) return 1;
+
+    const direct = await this.poolPrice(client, deployment, token, usdc, block, MIN_POOL_DEPTH_USD);
+    if (direct !== null) return direct;
+
+    const wethUsd = await this.poolPrice(client, deployment, weth, usdc, block, MIN_POOL_DEPTH_USD);
+    if (wethUsd === null) return null;
+
+    const inWeth = token === weth
+      ? 1
+      : await this.poolPrice(client, deployment, token, weth, block, MIN_POOL_DEPTH_USD / wethUsd);
+    return inWeth === null ? null : inWeth * wethUsd;
+  }
+
+  /**
+   * Price of `base` in units of `quote` from the deepest V3 pool, else the
+   * V2 pair, provided the pool holds at least `minDepth` of `quote`.
+   */
+  private async poolPrice(
+    client: JsonRpcClient,
+    deployment: UniswapDeployment,
+    base: string,
+    quote: string,
+    block: number,
+    minDepth: number
+  ): Promise<number | null> {
+    if (deployment.v3Factory) {
+      const pool = await this.v3Price(client, deployment.v3Factory, base, quote, block);
+      if (pool && pool.depth >= minDepth) return pool.price;
+    }
+    if (deployment.v2Factory) {
+      const pair = await this.v2Price(client, deployment.v2Factory, base, quote, block);
+      if (pair && pair.depth >= minDepth) return pair.price;
+    }
+    return null;
+  }
+
+  private async v3Price(
+    client: JsonRpcClient,
+    factory: string,
+    base: string,
+    quote: string,
+    block: number
+  ): Promise<PoolQuote | null> {
+    let best: { pool: string; liquidity: bigint } | null = null;
+    for (const fee of V3_FEE_TIERS) {
+      const pool = decodeAddress(
+        await client.ethCall(factory, GET_POOL + encodeAddress(base) + encodeAddress(quote) + encodeUint(fee), block)
+      );
+      if (pool === ZERO_ADDRESS) continue;
+
+      const liquidity = decodeWord(await client.ethCall(pool, LIQUIDITY, block));
+      if (liquidity > 0n && (!best || liquidity > best.liquidity)) {
+        best = { pool, liquidity };
+      }
+    }
+    if (!best) return null;
+
+    const sqrtPrice = Number(decodeWord(await client.ethCall(best.pool, SLOT0, block))) / Q96;
+    const baseIsToken0 = base < quote;
+    const [decimals0, decimals1] = baseIsToken0
+      ? [await this.tokenDecimals(client, base, block), await this.tokenDecimals(client, quote, block)]
+      : [await this.tokenDecimals(client, quote, block), await this.tokenDecimals(client, base, block)];
+
+    // token1 per token0, adjusted for decimals
+    const price1Per0 = sqrtPrice ** 2 * 10 ** (decimals0 - decimals1);
+    if (!Number.isFinite(price1Per0) || price1Per0 <= 0) return null;
+
+    // Virtual reserves of the active range: L / sqrtP of token0, L * sqrtP of token1
+    const liquidity = Number(best.liquidity);
+    const depth = baseIsToken0
+      ? (liquidity * sqrtPrice) / 10 ** decimals1
+      : liquidity / sqrtPrice / 10 ** decimals0;
+    return { price: baseIsToken0 ? price1Per0 : 1 / price1Per0, depth };
+  }
+
+  private async v2Price(
+    client: JsonRpcClient,
+    factory: string,
+    base: string,
+    quote: string,
+    block: number
+  ): Promise<PoolQuote | null> {
+    const pair = decodeAddress(await client.ethCall(factory, GET_PAIR + encodeAddress(base) + encodeAddress(quote), block));
+    if (pair === ZERO_ADDRESS) return null;
+
+    const reserves = await client.ethCall(pair, GET_RESERVES, block);
+    const token0 = decodeAddress(await client.ethCall(pair, TOKEN0, block));
+    const [baseReserve, quoteReserve] = token0 === base
+      ? [decodeWord(reserves, 0), decodeWord(reserves, 1)]
+      : [decodeWord(reserves, 1), decodeWord(reserves, 0)];
+    if (baseReserve === 0n || quoteReserve === 0n) return null;
+
+    const baseAmount = Number(baseReserve) / 10 ** (await this.tokenDecimals(client, base, block));
+    const quoteAmount = Number(quoteReserve) / 10 ** (await this.tokenDecimals(client, quote, block));
+    return { price: quoteAmount / baseAmount, depth: quoteAmount };
+  }
+
+  private async tokenDecimals(client: JsonRpcClient, token: string, block: BlockTag): Promise<number> {
+    const key = `${client.url}:${token}`;
+    const cached = this.decimals.get(key);
+    if (cached !== undefined) return cached;
+
+    const decimals = Number(decodeWord(await client.ethCall(token, DECIMALS, block)));
+    this.decimals.set(key, decimals);
+    return decimals;
+  }
+}
@@ -0,0 +1,66 @@
+// Currencies a price can be expressed in. Everything the providers return is
+// USD; other quotes are cross-rated against a tracked token that stands in
+// for the currency on each network.
+
+export const DEFAULT_QUOTE = "USD";
+
+const QUOTE_ASSETS: Record<string, Record<string, string>> = {
+  // WETH, or the bridged ETH each chain prices it by
+  ETH: {
+    ethereum: "0xc02aaa39b223fe8d0a0e5c4f27ead9083c756cc2",
+    polygon: "0x7ceb23fd6bc0add59e62ac25578270cff1b9f619",
+    arbitrum: "0x82af49447d8a07e3bd95bd0d56f35241523fbab1",
+    optimism: "0x4200000000000000000000000000000000000006",
+    base: "0x4200000000000000000000000000000000000006",
+    bnb: "0x2170ed0880ac9a755fd29b2688956bd959f933f8",
+    avalanche: "0x49d5c2bdffac6ce2bfdb6640f4f80f226bc10bab",
+  },
+  // WBTC; cbBTC on Base, BTCB on BNB Chain
+  BTC: {
+    ethereum: "0x2260fac5e5542a773aa44fbcfedf7c193bc2c599",
+    polygon: "0x1bfd67037b42cf73acf2047067bd4f2c47d9bfd6",
+    arbitrum: "0x2f2a2543b76a4166549f7aab2e75bef0aefc5b0f",
+    optimism: "0x68f180fcce6836688e9084f035309e29bf0a2095",
+    base: "0xcbb7c0000ab88b473b1f5afd9ef808440eed33bf",
+    bnb: "0x7130d2a12b9bcbfae4f2634d864a1ee1ce3ead9c",
+    avalanche: "0x50b7545627a5162f82a992c33b87adc75187b52b",
+  },
+  // EURC, or EURS on Polygon; Arbitrum, OP Mainnet and BNB Chain have no
+  // euro stablecoin liquid enough to stand in
+  EUR: {
+    ethereum: "0x1abaea1f7c830bd89acc67ec4af516284b1bc33c",
+    polygon: "0xe111178a87a3bff0c8d18decba5798827539ae99",
+    base: "0x60a3e35cc302bfa44cb288bc5a4f316fdb1adb42",
+    avalanche: "0xc891eb4cbdeff6e073e859e987815ed1505c2acd",
+  },
+};
+
+export const QUOTE_SYMBOLS = [DEFAULT_QUOTE, ...Object.keys(QUOTE_ASSETS)];
+
+const ADDRESS_PATTERN = /^0x[0-9a-fA-F]{40}$/;
+
+/**
+ * Canonical form of a quote: an upper-case symbol, or a lower-case token
+ * address for quoting against any other tracked token. Null if neither.
+ */
+export function normalizeQuote(value: unknown): string | null {
+  if (typeof value !== "string") return null;
+  if (ADDRESS_PATTERN.test(value)) return value.toLowerCase();
+  const symbol = value.toUpperCase();
+  return QUOTE_SYMBOLS.includes(symbol) ? symbol : null;
+}
+
+/**
+ * Token whose USD history stands in for `quote` on `network`. Undefined for
+ * USD itself and for symbols with no stand-in on that network.
+ */
+export function quoteAssetAddress(quote: string, network: string): string | undefined {
+  if (quote === DEFAULT_QUOTE) return undefined;
+  if (ADDRESS_PATTERN.test(quote)) return quote;
+  return QUOTE_ASSETS[quote]?.[network];
+}
+
+// Quote symbols usable on `network`: USD plus those with a stand-in there
+export function quoteSymbolsFor(network: string): string[] {
+  return QUOTE_SYMBOLS.filter((symbol) => symbol === DEFAULT_QUOTE || QUOTE_ASSETS[symbol][network]);
+}
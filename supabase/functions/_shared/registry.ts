@@ -0,0 +1,29 @@
+import { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2"
+import { LruCache } from "./cache.ts"
+import { NetworkInfo, NetworkRegistry } from "./networks.ts"
+
+const NETWORK_COLUMNS =
+  "name, chain_id, display_name, rpc_env, native_asset, genesis_timestamp, block_time_seconds";
+
+// The registry changes only by migration or by hand, so one read serves five minutes
+const networkCache = new LruCache<NetworkRegistry>(1, 5 * 60 * 1000);
+
+// Every enabled network, keyed by name
+export async function loadNetworks(supabase: SupabaseClient): Promise<NetworkRegistry> {
+  const cached = networkCache.get("networks");
+  if (cached) return cached;
+
+  const { data, error } = await supabase
+    .from("networks")
+    .select(NETWORK_COLUMNS)
+    .eq("enabled", true)
+    .order("chain_id", { ascending: true })
+  if (error) throw error;
+
+  // block_time_seconds is NUMERIC; coerced once here, as series.ts does for token_prices
+  const networks: NetworkRegistry = Object.fromEntries(
+    (data as NetworkInfo[]).map((row) => [row.name, { ...row, block_time_seconds: Number(row.block_time_seconds) }])
+  );
+  networkCache.set("networks", networks);
+  return networks;
+}
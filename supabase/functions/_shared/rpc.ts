@@ -0,0 +1,113 @@
+// Minimal JSON-RPC client for EVM nodes; works against any endpoint,
+// including a local anvil fork.
+
+import { NetworkInfo } from "./networks.ts"
+
+export type BlockTag = number | "latest";
+
+export interface BlockHeader {
+  number: number;
+  timestamp: number;
+}
+
+export class RpcError extends Error {
+  constructor(message: string, readonly code?: number) {
+    super(message);
+    this.name = "RpcError";
+  }
+}
+
+const toHex = (value: number | bigint) => `0x${value.toString(16)}`;
+
+/**
+ * RPC endpoint for a network, read from the environment variable its
+ * registry row names (e.g. RPC_URL_ETHEREUM=http://127.0.0.1:8545).
+ */
+export function rpcUrlFor(network: NetworkInfo | undefined): string | undefined {
+  return network ? Deno.env.get(network.rpc_env) || undefined : undefined;
+}
+
+export class JsonRpcClient {
+  private nextId = 1;
+
+  constructor(readonly url: string, private readonly fetchImpl: typeof fetch = fetch) {}
+
+  async call<T>(method: string, params: unknown[]): Promise<T> {
+    let res: Response;
+    try {
+      res = await this.fetchImpl(this.url, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ jsonrpc: "2.0", id: this.nextId++, method, params }),
+      });
+    } catch (error) {
+      throw new RpcError(`${method} failed: ${error.message}`);
+    }
+
+    if (!res.ok) {
+      throw new RpcError(`${method} failed with HTTP ${res.status}`, res.status);
+    }
+
+    const payload = await res.json();
+    if (payload.error) {
+      throw new RpcError(`${method} failed: ${payload.error.message}`, payload.error.code);
+    }
+    return payload.result as T;
+  }
+
+  async getBlock(tag: BlockTag): Promise<BlockHeader | null> {
+    const block = await this.call<{ number: string; timestamp: string } | null>(
+      "eth_getBlockByNumber",
+      [tag === "latest" ? tag : toHex(tag), false]
+    );
+    return block ? { number: Number(block.number), timestamp: Number(block.timestamp) } : null;
+  }
+
+  ethCall(to: string, data: string, tag: BlockTag = "latest"): Promise<string> {
+    return this.call<string>("eth_call", [{ to, data }, tag === "latest" ? tag : toHex(tag)]);
+  }
+}
+
+// ABI helpers for the handful of static calls the oracle makes
+
+export function encodeAddress(address: string): string {
+  return address.toLowerCase().replace(/^0x/, "").padStart(64, "0");
+}
+
+export function encodeUint(value: number | bigint): string {
+  return value.toString(16).padStart(64, "0");
+}
+
+// The `index`th 32-byte word of an ABI-encoded return value
+export function decodeWord(data: string, index = 0): bigint {
+  const hex = data.replace(/^0x/, "").slice(index * 64, (index + 1) * 64);
+  return hex.length === 64 ? BigInt(`0x${hex}`) : 0n;
+}
+
+export function decodeAddress(data: string, index = 0): string {
+  return `0x${decodeWord(data, index).toString(16).padStart(40, "0")}`;
+}
+
+/**
+ * A string return value: ABI-encoded `string`, or the `bytes32` some older
+ * tokens (e.g. MKR) return from name() and symbol(). Null when empty.
+ */
+export function decodeString(data: string): string | null {
+  const hex = data.replace(/^0x/, "");
+  let bytes: string;
+  if (hex.length >= 128 && decodeWord(hex, 0) === 32n) {
+    const length = Number(decodeWord(hex, 1));
+    bytes = hex.slice(128, 128 + length * 2);
+  } else if (hex.length === 64) {
+    bytes = hex.replace(/(00)+$/, "");
+  } else {
+    return null;
+  }
+
+  const text = new TextDecoder().decode(
+    Uint8Array.from(bytes.match(/../g) ?? [], (byte) => parseInt(byte, 16))
+  ).replace(/\0/g, "").trim();
+  return text || null;
+}
+
+export const ZERO_ADDRESS = "0x0000000000000000000000000000000000000000";
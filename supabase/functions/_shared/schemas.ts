@@ -0,0 +1,483 @@
+// Request and response schemas for the public API: the single source of the
+// wire types. The functions validate input with them, the frontend imports
+// the inferred types and /v1/openapi.json is generated from them. Keep this
+// file free of Deno APIs: the app imports it directly.
+
+import { z } from "zod"
+import { ERROR_CODES, ErrorCode, FieldError } from "./errors.ts"
+import {
+  EXTRAPOLATION_POLICIES,
+  ExtrapolationPolicy,
+  INTERPOLATION_METHODS,
+  InterpolationMethod,
+} from "./interpolation.ts"
+import {
+  PROVIDER_NAMES,
+  ProviderName,
+  REQUESTABLE_PROVIDERS,
+  RESOLUTIONS,
+  Resolution,
+} from "./providers/provider.ts"
+
+// Window around the requested timestamp that counts as a cache hit
+export const CACHE_TOLERANCE = 3600; // 1 hour in seconds
+
+// Widest tolerance a caller may ask for
+export const MAX_CACHE_TOLERANCE = 86400;
+
+// Grid points per page of a range request, by default and at most
+export const DEFAULT_RANGE_LIMIT = 500;
+export const MAX_RANGE_LIMIT = 1000;
+
+// Candle intervals: a positive count and a unit, such as 15m, 4h, 1d, 1w or 1M
+export const CANDLE_INTERVAL_PATTERN = /^([1-9]\d*)(m|h|d|w|M)$/;
+
+const ADDRESS_PATTERN = /^0x[0-9a-fA-F]{40}$/;
+
+const AddressSchema = z
+  .string()
+  .regex(ADDRESS_PATTERN, "Must be a 0x-prefixed 20-byte hex address")
+  .describe("20-byte hex address; mixed case must be a valid EIP-55 checksum");
+
+const InterpolationMethodSchema = z.enum(
+  INTERPOLATION_METHODS as [InterpolationMethod, ...InterpolationMethod[]]
+);
+
+const ExtrapolationPolicySchema = z.enum(
+  EXTRAPOLATION_POLICIES as [ExtrapolationPolicy, ...ExtrapolationPolicy[]]
+);
+
+const ProviderNameSchema = z.enum(PROVIDER_NAMES as [ProviderName, ...ProviderName[]]);
+
+const RequestableProviderSchema = z.enum(REQUESTABLE_PROVIDERS as [ProviderName, ...ProviderName[]]);
+
+// Membership is checked against the networks table once the request is parsed
+export const NetworkSchema = z
+  .string()
+  .regex(/^[a-z0-9-]+$/, "Must be a lowercase network name")
+  .describe("Network name as listed by GET /v1/networks");
+
+const QuoteSchema = z
+  .string()
+  .describe("USD (default), ETH, BTC, EUR or the address of a tracked token");
+
+export const PriceRequestSchema = z.object({
+  token: AddressSchema,
+  network: NetworkSchema,
+  timestamp: z
+    .number()
+    .int()
+    .describe("Unix seconds; not in the future and not before the network's genesis block"),
+  method: InterpolationMethodSchema.optional().describe("Interpolation method; default linear"),
+  provider: RequestableProviderSchema.optional().describe("Restrict provider fallback to one source"),
+  quote: QuoteSchema.optional(),
+  tolerance: z
+    .number()
+    .min(0)
+    .max(MAX_CACHE_TOLERANCE)
+    .optional()
+    .describe(`Seconds a cached row may be from timestamp to count as a hit; default ${CACHE_TOLERANCE}`),
+  extrapolation: ExtrapolationPolicySchema.optional().describe(
+    "Override the token's policy when cached rows exist on one side only"
+  ),
+  max_extrapolation: z
+    .number()
+    .min(0)
+    .optional()
+    .describe("Furthest, in seconds, a price may be extrapolated from its anchor row"),
+  explain: z.boolean().optional().describe("Return a trace of how the price was found"),
+  block: z.boolean().optional().describe("Return the canonical block_number at the timestamp"),
+});
+
+export const BatchPriceRequestSchema = z.object({
+  items: z.array(PriceRequestSchema).min(1),
+});
+
+const PricePointSchema = z.object({
+  timestamp: z.number().int(),
+  price: z.number(),
+});
+
+const ErrorBandSchema = z.object({
+  lower: z.number(),
+  upper: z.number(),
+  confidence: z.number(),
+  volatility_per_day: z.number(),
+});
+
+export const InterpolationDetailsSchema = z.object({
+  before: PricePointSchema,
+  after: PricePointSchema,
+  gap_seconds: z.number().int(),
+  error_band: ErrorBandSchema,
+});
+
+export const ExtrapolationDetailsSchema = z.object({
+  policy: ExtrapolationPolicySchema,
+  direction: z.enum(["forward", "backward"]),
+  anchor: PricePointSchema,
+  staleness_seconds: z.number().int(),
+});
+
+const ResolutionSchema = z.enum(RESOLUTIONS as [Resolution, ...Resolution[]]);
+
+export const CacheMatchSchema = z.object({
+  timestamp: z.number().int(),
+  distance_seconds: z.number().int().describe("Absolute distance from the requested timestamp"),
+  resolution: ResolutionSchema.describe("Sampling resolution of the matched row; finer rows win within the tolerance"),
+});
+
+export const GapGuardSchema = z.object({
+  max_gap_seconds: z.number().int(),
+  gap_seconds: z.number().int(),
+  exceeded: z.boolean(),
+});
+
+export const PriceSourceSchema = z.enum([
+  "cache",
+  "interpolated",
+  "extrapolated",
+  "canonical",
+  ...(PROVIDER_NAMES as [ProviderName, ...ProviderName[]]),
+]);
+
+export const CrossRateSchema = z.object({
+  asset: z.string(),
+  price: z.number(),
+  source: PriceSourceSchema,
+});
+
+export const CanonicalSchema = z.object({
+  token: z.string(),
+  network: z.string(),
+  source: PriceSourceSchema.describe("How the canonical asset's own lookup was answered"),
+});
+
+// A stored row as it appears in an explain trace; `id` joins price_provenance
+export const TraceRowSchema = z.object({
+  id: z.string(),
+  timestamp: z.number().int(),
+  price: z.number(),
+  resolution: ResolutionSchema,
+});
+
+export const ProviderAttemptSchema = z.object({
+  provider: ProviderNameSchema,
+  outcome: z.enum(["price", "no_data", "error"]),
+  error: z.enum(["unauthorized", "unsupported_network", "rate_limited", "unavailable", "bad_response"]).optional(),
+});
+
+// How one series answered (or failed to answer) a lookup
+export const ExplainLegSchema = z.object({
+  window: z
+    .object({ from: z.number().int(), to: z.number().int(), rows: z.array(TraceRowSchema) })
+    .describe("Rows inside the tolerance window, any of which could have been a cache hit"),
+  neighbours: z
+    .object({ before: z.array(TraceRowSchema), after: z.array(TraceRowSchema) })
+    .nullable()
+    .describe("Rows the interpolation or extrapolation read; null for cache hits"),
+  provider_calls: z.array(ProviderAttemptSchema).describe("Providers tried, in order; empty when the cache answered"),
+});
+
+const CrossRatedLegSchema = ExplainLegSchema.extend({
+  cross_rate: z
+    .object({ token: ExplainLegSchema, asset: ExplainLegSchema })
+    .optional()
+    .describe("USD lookups for the token and the quote asset, when the answer was cross-rated"),
+});
+
+export const ExplainSchema = CrossRatedLegSchema.extend({
+  canonical: CrossRatedLegSchema.optional().describe("Lookup of the canonical asset, when the answer came from it"),
+});
+
+export const PriceResponseSchema = z.object({
+  price: z.number(),
+  quote: z.string(),
+  source: PriceSourceSchema,
+  method: InterpolationMethodSchema.optional(),
+  match: CacheMatchSchema.optional().describe("The row a cache hit was read from"),
+  interpolation: InterpolationDetailsSchema.optional().describe(
+    "Bracketing rows are as stored; the error band is in the response quote"
+  ),
+  extrapolation: ExtrapolationDetailsSchema.optional(),
+  gap_guard: GapGuardSchema.optional().describe("Present whenever the cached bracket was checked against max_gap"),
+  cross_rate: CrossRateSchema.optional().describe("Quote asset's USD price used to convert a USD price"),
+  canonical: CanonicalSchema.optional().describe(
+    "Asset whose series answered a miss for a bridged token; match and interpolation describe its rows"
+  ),
+  block_number: z.number().int().nullable().optional().describe(
+    "Canonical block at the timestamp when the request set block; null without an RPC endpoint, or when a stored price's block is not cached yet"
+  ),
+  explain: ExplainSchema.optional().describe("Present when the request set explain"),
+  symbol: z.string().nullable().optional().describe("Token symbol from the tokens registry; null when unknown"),
+});
+
+const ErrorCodeSchema = z.enum(ERROR_CODES as [ErrorCode, ...ErrorCode[]]);
+
+export const FieldErrorSchema = z.object({
+  field: z.string(),
+  code: ErrorCodeSchema,
+  message: z.string(),
+});
+
+export const ApiErrorSchema = z.object({
+  code: ErrorCodeSchema,
+  message: z.string(),
+  details: z.record(z.unknown()).optional(),
+});
+
+export const ErrorEnvelopeSchema = z.object({
+  error: z.object({
+    code: ErrorCodeSchema,
+    message: z.string(),
+    details: z.record(z.unknown()).optional(),
+    request_id: z.string(),
+  }),
+});
+
+export const BatchPriceResponseSchema = z.object({
+  results: z
+    .array(z.union([PriceResponseSchema, z.object({ error: ApiErrorSchema })]))
+    .describe("One entry per item, in request order"),
+});
+
+export const RangeRequestSchema = z.object({
+  token: AddressSchema,
+  network: NetworkSchema,
+  from: z.number().int().describe("Unix seconds; the first grid point is the first bucket start at or after it"),
+  to: z.number().int().describe("Unix seconds; not before from"),
+  granularity: z.enum(["hour", "day", "week", "month"]).describe("UTC buckets; weeks start on Monday"),
+  method: InterpolationMethodSchema.optional().describe("Interpolation method; default linear"),
+  quote: QuoteSchema.optional(),
+  cursor: z.number().int().optional().describe("Timestamp to resume from, taken from a previous page's next_cursor"),
+  limit: z
+    .number()
+    .int()
+    .min(1)
+    .max(MAX_RANGE_LIMIT)
+    .optional()
+    .describe(`Grid points per page; default ${DEFAULT_RANGE_LIMIT}`),
+});
+
+export const RangePointSchema = z.object({
+  timestamp: z.number().int(),
+  price: z.number(),
+  source: z.enum(["cache", "interpolated", "extrapolated"]),
+});
+
+export const RangeResponseSchema = z.object({
+  token: z.string(),
+  network: z.string(),
+  quote: z.string(),
+  granularity: RangeRequestSchema.shape.granularity,
+  method: InterpolationMethodSchema,
+  points: z.array(RangePointSchema),
+  missing: z
+    .array(z.number().int())
+    .describe("Grid points with neither a cached row nor a bracket narrower than max_gap"),
+  next_cursor: z.number().int().nullable().describe("Pass as cursor for the next page; null on the last page"),
+});
+
+export const CandlesRequestSchema = z.object({
+  token: AddressSchema,
+  network: NetworkSchema,
+  interval: z
+    .string()
+    .regex(CANDLE_INTERVAL_PATTERN, "Must be a count and unit such as 15m, 4h, 1d, 1w or 1M")
+    .describe("Candle width: a count and one of m, h, d, w or M"),
+  from: z.number().int().describe("Unix seconds"),
+  to: z.number().int().describe("Unix seconds; not before from"),
+  quote: QuoteSchema.optional(),
+});
+
+export const CandleSchema = z.object({
+  timestamp: z.number().int().describe("Start of the bucket"),
+  open: z.number(),
+  high: z.number(),
+  low: z.number(),
+  close: z.number(),
+  samples: z.number().int().describe("Stored rows the candle was built from, all of the finest resolution in the bucket"),
+});
+
+export const CandlesResponseSchema = z.object({
+  token: z.string(),
+  network: z.string(),
+  quote: z.string(),
+  interval: z.string(),
+  candles: z.array(CandleSchema).describe("Buckets without stored rows are left out"),
+});
+
+export const TokenResponseSchema = z.object({
+  address: z.string(),
+  network: z.string(),
+  symbol: z.string().nullable(),
+  name: z.string().nullable(),
+  decimals: z.number().int().nullable(),
+  deployment_block: z.number().int().nullable().describe("Curated; null for tokens first seen on-chain"),
+  provider_ids: z.record(z.string()).describe("Ids the token is known by at each provider; curated, empty for tokens first seen on-chain"),
+});
+
+export const NetworkResponseSchema = z.object({
+  name: z.string(),
+  chain_id: z.number().int(),
+  display_name: z.string(),
+  native_asset: z.string(),
+  genesis_timestamp: z.number().int().describe("Unix seconds of the first block"),
+  block_time_seconds: z.number().describe("Average seconds between blocks"),
+  quotes: z.array(z.string()).describe("Quote symbols available on the network"),
+});
+
+export const NetworkListResponseSchema = z.object({
+  networks: z.array(NetworkResponseSchema),
+});
+
+// A stored price that failed outlier screening, as shown to reviewers
+export const QuarantinedPriceSchema = z.object({
+  id: z.string().describe("token_prices id; joins price_provenance for the provider and raw payload"),
+  token_address: z.string(),
+  network: z.string(),
+  quote: z.string(),
+  resolution: ResolutionSchema,
+  timestamp: z.number().int(),
+  price: z.number(),
+  outlier_score: z.number().nullable().describe("Robust z-score against neighbouring rows; null for non-positive prices"),
+  quarantined: z.boolean(),
+  review: z.enum(["released", "rejected"]).nullable(),
+  reviewed_at: z.string().nullable(),
+  created_at: z.string(),
+});
+
+export const QuarantineListRequestSchema = z.object({
+  status: z
+    .enum(["pending", "released", "rejected"])
+    .optional()
+    .describe("Review state to list; default pending"),
+  network: z.string().optional(),
+  token: z.string().optional(),
+  limit: z.number().int().min(1).max(500).optional().describe("Rows to return, newest first; default 100"),
+});
+
+export const QuarantineListResponseSchema = z.object({
+  prices: z.array(QuarantinedPriceSchema),
+});
+
+export const QuarantineReviewRequestSchema = z.object({
+  action: z
+    .enum(["release", "reject"])
+    .describe("release puts the row back into lookups; reject keeps it out for good"),
+});
+
+export const BlockRequestSchema = z.object({
+  network: NetworkSchema,
+  timestamp: z.number().int().describe("Unix seconds; not in the future and not before the network's genesis block"),
+});
+
+export const BlockResponseSchema = z.object({
+  network: z.string(),
+  timestamp: z.number().int(),
+  block_number: z.number().int().describe("Last block mined at or before the timestamp"),
+  block_timestamp: z.number().int(),
+});
+
+export const ScheduleRequestSchema = z.object({
+  token: AddressSchema,
+  network: NetworkSchema,
+  provider: RequestableProviderSchema.optional(),
+  quote: QuoteSchema.optional(),
+});
+
+export const ScheduleResponseSchema = z.object({
+  job_id: z.string(),
+  message: z.string(),
+  estimated_days: z.number().int(),
+});
+
+export const JobResponseSchema = z.object({
+  job_id: z.string(),
+  token_address: z.string(),
+  network: z.string(),
+  quote: z.string(),
+  status: z.enum(["pending", "running", "completed", "error"]),
+  total_days: z.number().int(),
+  completed_days: z.number().int(),
+  progress: z.number().min(0).max(100).describe("Percentage of days processed"),
+  error_message: z.string().nullable(),
+  started_at: z.string().nullable(),
+  completed_at: z.string().nullable(),
+  updated_at: z.string(),
+});
+
+export type PriceRequest = z.infer<typeof PriceRequestSchema>;
+export type BatchPriceRequest = z.infer<typeof BatchPriceRequestSchema>;
+export type CacheMatch = z.infer<typeof CacheMatchSchema>;
+export type GapGuard = z.infer<typeof GapGuardSchema>;
+export type PriceSource = z.infer<typeof PriceSourceSchema>;
+export type CrossRate = z.infer<typeof CrossRateSchema>;
+export type Canonical = z.infer<typeof CanonicalSchema>;
+export type TraceRow = z.infer<typeof TraceRowSchema>;
+export type ExplainLeg = z.infer<typeof ExplainLegSchema>;
+export type Explain = z.infer<typeof ExplainSchema>;
+export type PriceResponse = z.infer<typeof PriceResponseSchema>;
+export type BatchPriceResponse = z.infer<typeof BatchPriceResponseSchema>;
+export type RangeRequest = z.infer<typeof RangeRequestSchema>;
+export type RangePoint = z.infer<typeof RangePointSchema>;
+export type RangeResponse = z.infer<typeof RangeResponseSchema>;
+export type CandlesRequest = z.infer<typeof CandlesRequestSchema>;
+export type Candle = z.infer<typeof CandleSchema>;
+export type CandlesResponse = z.infer<typeof CandlesResponseSchema>;
+export type BlockRequest = z.infer<typeof BlockRequestSchema>;
+export type BlockResponse = z.infer<typeof BlockResponseSchema>;
+export type ScheduleRequest = z.infer<typeof ScheduleRequestSchema>;
+export type ScheduleResponse = z.infer<typeof ScheduleResponseSchema>;
+export type JobResponse = z.infer<typeof JobResponseSchema>;
+export type TokenResponse = z.infer<typeof TokenResponseSchema>;
+export type QuarantinedPrice = z.infer<typeof QuarantinedPriceSchema>;
+export type QuarantineListResponse = z.infer<typeof QuarantineListResponseSchema>;
+export type QuarantineReviewRequest = z.infer<typeof QuarantineReviewRequestSchema>;
+export type NetworkResponse = z.infer<typeof NetworkResponseSchema>;
+export type NetworkListResponse = z.infer<typeof NetworkListResponseSchema>;
+
+// Error code reported for a schema failure on each well-known field
+const FIELD_CODES: Record<string, ErrorCode> = {
+  token: "INVALID_ADDRESS",
+  network: "INVALID_NETWORK",
+  timestamp: "INVALID_TIMESTAMP",
+};
+
+// One FieldError per schema issue, keyed by the dotted path of the field
+export function fieldErrorsFrom(error: z.ZodError): FieldError[] {
+  return error.issues.map((issue) => {
+    const field = issue.path.join(".") || "body";
+    return {
+      field,
+      code: FIELD_CODES[String(issue.path[issue.path.length - 1])] ?? "INVALID_PARAMETER",
+      message: issue.message,
+    };
+  });
+}
+
+// Keys of an object schema whose values are booleans, which GET requests must parse
+export function booleanFields(schema: z.AnyZodObject): string[] {
+  return Object.entries(schema.shape as Record<string, z.ZodTypeAny>)
+    .filter(([, field]) => unwrap(field) instanceof z.ZodBoolean)
+    .map(([key]) => key);
+}
+
+// Keys of an object schema whose values are numbers, which GET requests must parse
+export function numericFields(schema: z.AnyZodObject): string[] {
+  return Object.entries(schema.shape as Record<string, z.ZodTypeAny>)
+    .filter(([, field]) => unwrap(field) instanceof z.ZodNumber)
+    .map(([key]) => key);
+}
+
+// The schema under any optional/nullable/default/describe wrappers
+export function unwrap(schema: z.ZodTypeAny): z.ZodTypeAny {
+  while (
+    schema instanceof z.ZodOptional ||
+    schema instanceof z.ZodNullable ||
+    schema instanceof z.ZodDefault
+  ) {
+    schema = schema._def.innerType;
+  }
+  return schema;
+}
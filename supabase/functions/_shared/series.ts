@@ -0,0 +1,381 @@
+import { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2"
+import {
+  ExtrapolationDetails,
+  ExtrapolationPolicy,
+  InterpolationDetails,
+  InterpolationMethod,
+  VOLATILITY_WINDOW,
+  describeInterpolation,
+  extrapolate,
+  interpolate,
+  neighbourCount,
+} from "./interpolation.ts"
+import { CACHE_TOLERANCE, CacheMatch, ExplainLeg, TraceRow } from "./schemas.ts"
+import { CacheStats, LruCache } from "./cache.ts"
+import { RESOLUTIONS, Resolution } from "./providers/provider.ts"
+
+export interface CachedPrice {
+  id: string;
+  token_address: string;
+  network: string;
+  timestamp: number;
+  price: number;
+  quote: string;
+  resolution: Resolution;
+  date: string;
+  // Set when the row failed outlier screening; such rows are never read back as series
+  quarantined: boolean;
+  outlier_score: number | null;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * A token_prices row, or any subset of its columns, with the DECIMAL columns
+ * as numbers. Every read of the table goes through here, so callers can
+ * rely on the declared types without converting again.
+ */
+export function toPriceRow<T extends Partial<CachedPrice>>(row: T): T {
+  return {
+    ...row,
+    ...(row.price != null ? { price: Number(row.price) } : {}),
+    ...(row.outlier_score != null ? { outlier_score: Number(row.outlier_score) } : {}),
+  };
+}
+
+// A price read off a cached series: a direct hit, interpolated or extrapolated
+export interface SeriesPoint {
+  price: number;
+  source: "cache" | "interpolated" | "extrapolated";
+  match?: CacheMatch;
+  interpolation?: InterpolationDetails;
+  extrapolation?: ExtrapolationDetails;
+}
+
+// How to answer when rows exist on only one side of the target
+export interface ExtrapolationOptions {
+  policy: ExtrapolationPolicy;
+  max_seconds: number;
+}
+
+export interface PointOptions {
+  // Furthest a row may be from the target and still count as a cache hit
+  tolerance?: number;
+  extrapolation?: ExtrapolationOptions;
+  // Widest bracket that may be interpolated across; null means no limit
+  max_gap_seconds?: number | null;
+}
+
+// Columns of idx_token_prices_unique, for conflict-aware writes
+export const TOKEN_PRICES_CONFLICT = "token_address,network,quote,resolution,timestamp";
+
+// PostgREST caps responses, so long spans are read page by page
+const PAGE_SIZE = 1000;
+
+// Recently read series, kept for the five minutes the README promises
+const SERIES_CACHE_ENTRIES = 200;
+const SERIES_CACHE_TTL = 5 * 60 * 1000;
+
+const seriesCache = new LruCache<CachedPrice[]>(SERIES_CACHE_ENTRIES, SERIES_CACHE_TTL);
+
+// Reads are widened to whole UTC days so nearby requests share a cache entry
+const SERIES_CACHE_ALIGNMENT = 86400;
+
+const seriesKey = (token: string, network: string, quote: string) => `${network}:${token}:${quote}:`;
+
+// Forget cached series for a token after new rows are written for it
+export function invalidateSeries(token: string, network: string, quote: string): void {
+  seriesCache.invalidate(seriesKey(token, network, quote));
+}
+
+// Most recent write to any row in the series, in milliseconds
+export function seriesModifiedAt(series: CachedPrice[]): number | null {
+  let latest: number | null = null;
+  for (const row of series) {
+    const modified = Date.parse(row.updated_at ?? row.created_at);
+    if (Number.isFinite(modified) && (latest === null || modified > latest)) latest = modified;
+  }
+  return latest;
+}
+
+// Rows needed on each side of a target to serve every given method
+export function lookbackFor(methods: InterpolationMethod[]): number {
+  return Math.max(VOLATILITY_WINDOW, ...methods.map(neighbourCount));
+}
+
+/**
+ * Read every cached row for a token in one quote between `from` and `to`,
+ * plus `lookback` rows on either side so items near the edges still have
+ * neighbours. Quarantined rows are left out. The database is read for the
+ * whole UTC days around the window, and any read within those days in the
+ * TTL is served from memory; the returned rows are shared and must not be
+ * mutated.
+ */
+export async function loadSeries(
+  supabase: SupabaseClient,
+  token: string,
+  network: string,
+  quote: string,
+  from: number,
+  to: number,
+  lookback: number,
+  stats?: CacheStats
+): Promise<CachedPrice[]> {
+  const alignedFrom = Math.floor(from / SERIES_CACHE_ALIGNMENT) * SERIES_CACHE_ALIGNMENT;
+  const alignedTo = (Math.floor(to / SERIES_CACHE_ALIGNMENT) + 1) * SERIES_CACHE_ALIGNMENT - 1;
+  const key = `${seriesKey(token, network, quote)}${alignedFrom}:${alignedTo}:${lookback}`;
+
+  let series = seriesCache.get(key, stats);
+  if (!series) {
+    series = await querySeries(supabase, token, network, quote, alignedFrom, alignedTo, lookback);
+    seriesCache.set(key, series);
+  }
+
+  // The rows in range, then `lookback` more on either side of them
+  const first = upperBound(series, Math.ceil(from) - 1);
+  const last = upperBound(series, to);
+  return series.slice(Math.max(0, first - lookback), last + lookback);
+}
+
+async function querySeries(
+  supabase: SupabaseClient,
+  token: string,
+  network: string,
+  quote: string,
+  from: number,
+  to: number,
+  lookback: number
+): Promise<CachedPrice[]> {
+  const inRange: CachedPrice[] = [];
+
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from("token_prices")
+      .select("*")
+      .eq("token_address", token)
+      .eq("network", network)
+      .eq("quote", quote)
+      .eq("quarantined", false)
+      .gte("timestamp", from)
+      .lte("timestamp", to)
+      .order("timestamp", { ascending: true })
+      .range(offset, offset + PAGE_SIZE - 1)
+
+    if (error) throw error;
+    inRange.push(...(data as CachedPrice[]).map(toPriceRow));
+    if (data.length < PAGE_SIZE) break;
+  }
+
+  const { data: beforePrices, error: beforeError } = await supabase
+    .from("token_prices")
+    .select("*")
+    .eq("token_address", token)
+    .eq("network", network)
+    .eq("quote", quote)
+    .eq("quarantined", false)
+    .lt("timestamp", from)
+    .order("timestamp", { ascending: false })
+    .limit(lookback)
+
+  if (beforeError) throw beforeError;
+
+  const { data: afterPrices, error: afterError } = await supabase
+    .from("token_prices")
+    .select("*")
+    .eq("token_address", token)
+    .eq("network", network)
+    .eq("quote", quote)
+    .eq("quarantined", false)
+    .gt("timestamp", to)
+    .order("timestamp", { ascending: true })
+    .limit(lookback)
+
+  if (afterError) throw afterError;
+
+  // Rows before the range come back newest first
+  return finestPerTimestamp([
+    ...(beforePrices as CachedPrice[]).map(toPriceRow).reverse(),
+    ...inRange,
+    ...(afterPrices as CachedPrice[]).map(toPriceRow)
+  ]);
+}
+
+// Lower is finer; rows written before the column existed are daily
+const resolutionRank = (row: CachedPrice) => RESOLUTIONS.indexOf(row.resolution ?? "day");
+
+// Keep one row per timestamp, preferring the finest resolution, so brackets never span zero seconds
+function finestPerTimestamp(series: CachedPrice[]): CachedPrice[] {
+  const rows: CachedPrice[] = [];
+  for (const row of series) {
+    const last = rows[rows.length - 1];
+    if (last && last.timestamp === row.timestamp) {
+      if (resolutionRank(row) < resolutionRank(last)) rows[rows.length - 1] = row;
+    } else {
+      rows.push(row);
+    }
+  }
+  return rows;
+}
+
+function isBetterMatch(row: CachedPrice, best: CachedPrice, timestamp: number): boolean {
+  const rank = resolutionRank(row) - resolutionRank(best);
+  if (rank !== 0) return rank < 0;
+  const distance = Math.abs(row.timestamp - timestamp) - Math.abs(best.timestamp - timestamp);
+  return distance !== 0 ? distance < 0 : row.timestamp < best.timestamp;
+}
+
+// Index of the first row strictly after `timestamp`
+function upperBound(series: CachedPrice[], timestamp: number): number {
+  let lo = 0;
+  let hi = series.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (series[mid].timestamp <= timestamp) {
+      lo = mid + 1;
+    } else {
+      hi = mid;
+    }
+  }
+  return lo;
+}
+
+const traceRow = (row: CachedPrice): TraceRow => ({
+  id: row.id,
+  timestamp: row.timestamp,
+  price: row.price,
+  resolution: row.resolution ?? "day",
+});
+
+// The rows `pointAt` weighs for a timestamp, for explain traces
+export type PointTrace = Pick<ExplainLeg, "window" | "neighbours">;
+
+/**
+ * Every row within `tolerance` of `timestamp`, and the neighbours `method`
+ * reads on either side when no row is close enough.
+ */
+export function tracePoint(
+  series: CachedPrice[],
+  timestamp: number,
+  method: InterpolationMethod,
+  tolerance = CACHE_TOLERANCE
+): PointTrace {
+  const from = timestamp - tolerance;
+  const to = timestamp + tolerance;
+  const rows: TraceRow[] = [];
+  for (let i = upperBound(series, from - 1); i < series.length && series[i].timestamp <= to; i++) {
+    rows.push(traceRow(series[i]));
+  }
+
+  const split = upperBound(series, timestamp);
+  const count = neighbourCount(method);
+  return {
+    window: { from, to, rows },
+    neighbours: {
+      before: series.slice(Math.max(0, split - count), split).map(traceRow),
+      after: series.slice(split, split + count).map(traceRow)
+    }
+  };
+}
+
+// Seconds between the rows either side of `timestamp`, or null without a bracket
+export function bracketGap(series: CachedPrice[], timestamp: number): number | null {
+  const split = upperBound(series, timestamp);
+  if (split === 0 || split === series.length) return null;
+  return series[split].timestamp - series[split - 1].timestamp;
+}
+
+/**
+ * Price at `timestamp` from an ascending series without touching the
+ * database. Returns null when the series has neither a cache hit nor a
+ * bracket around the timestamp, unless `extrapolation` allows projecting
+ * from the side that has rows, and when the bracket is wider than
+ * `max_gap_seconds`.
+ */
+export function pointAt(
+  series: CachedPrice[],
+  timestamp: number,
+  method: InterpolationMethod,
+  { tolerance = CACHE_TOLERANCE, extrapolation, max_gap_seconds = null }: PointOptions = {}
+): SeriesPoint | null {
+  const split = upperBound(series, timestamp);
+
+  // First, check cache for a row within tolerance: the finest resolution
+  // wins, then the closest, then the earlier of two equally close rows
+  let closest: CachedPrice | null = null;
+  for (let i = split - 1; i >= 0 && timestamp - series[i].timestamp <= tolerance; i--) {
+    if (!closest || isBetterMatch(series[i], closest, timestamp)) closest = series[i];
+  }
+  for (let i = split; i < series.length && series[i].timestamp - timestamp <= tolerance; i++) {
+    if (!closest || isBetterMatch(series[i], closest, timestamp)) closest = series[i];
+  }
+  if (closest) {
+    return {
+      price: closest.price,
+      source: "cache",
+      match: {
+        timestamp: closest.timestamp,
+        distance_seconds: Math.abs(closest.timestamp - timestamp),
+        resolution: closest.resolution ?? "day"
+      }
+    };
+  }
+
+  // If no exact match, look for prices before and after for interpolation
+  // Extra rows beyond what the method needs feed the volatility estimate
+  const neighbours = neighbourCount(method);
+  const lookback = Math.max(neighbours, VOLATILITY_WINDOW);
+  const before = series.slice(Math.max(0, split - lookback), split);
+  const after = series.slice(split, split + lookback);
+
+  if (before.length === 0 && after.length === 0) {
+    return null;
+  }
+
+  if (before.length === 0 || after.length === 0) {
+    return extrapolateFrom(before.length > 0 ? before : after, timestamp, extrapolation);
+  }
+
+  if (max_gap_seconds !== null && after[0].timestamp - before[before.length - 1].timestamp > max_gap_seconds) {
+    return null;
+  }
+
+  const interpolatedPrice = interpolate(
+    method,
+    timestamp,
+    before.slice(-neighbours),
+    after.slice(0, neighbours)
+  );
+  const price = parseFloat(interpolatedPrice.toFixed(8));
+
+  return {
+    price,
+    source: "interpolated",
+    interpolation: describeInterpolation(timestamp, price, before, after)
+  };
+}
+
+function extrapolateFrom(
+  side: CachedPrice[],
+  timestamp: number,
+  options?: ExtrapolationOptions
+): SeriesPoint | null {
+  if (!options || options.policy === "refuse") return null;
+
+  const forward = timestamp > side[side.length - 1].timestamp;
+  const anchor = forward ? side[side.length - 1] : side[0];
+  const staleness = Math.abs(timestamp - anchor.timestamp);
+  if (staleness > options.max_seconds) return null;
+
+  const price = parseFloat(extrapolate(options.policy, timestamp, side).toFixed(8));
+
+  return {
+    price,
+    source: "extrapolated",
+    extrapolation: {
+      policy: options.policy,
+      direction: forward ? "forward" : "backward",
+      anchor: { timestamp: anchor.timestamp, price: anchor.price },
+      staleness_seconds: staleness
+    }
+  };
+}
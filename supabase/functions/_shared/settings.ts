@@ -0,0 +1,78 @@
+import { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2"
+import {
+  DEFAULT_EXTRAPOLATION_POLICY,
+  DEFAULT_MAX_EXTRAPOLATION,
+  ExtrapolationPolicy,
+} from "./interpolation.ts"
+import { LruCache } from "./cache.ts"
+
+// What a lookup does when the bracket around it is wider than max_gap_seconds
+export type GapPolicy = "provider" | "error";
+
+export const DEFAULT_MAX_GAP = 30 * 86400;
+
+export const DEFAULT_GAP_POLICY: GapPolicy = "provider";
+
+// Lookup configuration after merging the token's row over the global row
+export interface PriceSettings {
+  extrapolation: ExtrapolationPolicy;
+  max_extrapolation_seconds: number;
+  max_gap_seconds: number;
+  on_gap_exceeded: GapPolicy;
+}
+
+interface PriceSettingsRow {
+  extrapolation: ExtrapolationPolicy | null;
+  max_extrapolation_seconds: number | null;
+  max_gap_seconds: number | null;
+  on_gap_exceeded: GapPolicy | null;
+}
+
+const SETTINGS_COLUMNS = "extrapolation, max_extrapolation_seconds, max_gap_seconds, on_gap_exceeded";
+
+// Settings change rarely and by hand; merged results are reused for a few minutes
+const settingsCache = new LruCache<PriceSettings>(500, 5 * 60 * 1000);
+
+/**
+ * Settings for one token on one network. Columns left NULL on the token's
+ * row fall back to the global row, then to the built-in defaults.
+ */
+export async function loadPriceSettings(
+  supabase: SupabaseClient,
+  token: string,
+  network: string
+): Promise<PriceSettings> {
+  const key = `${network}:${token}`;
+  const cached = settingsCache.get(key);
+  if (cached) return cached;
+
+  const [global, scoped] = await Promise.all([
+    supabase
+      .from("price_settings")
+      .select(SETTINGS_COLUMNS)
+      .is("token_address", null)
+      .maybeSingle(),
+    supabase
+      .from("price_settings")
+      .select(SETTINGS_COLUMNS)
+      .eq("token_address", token)
+      .eq("network", network)
+      .maybeSingle()
+  ]);
+
+  if (global.error) throw global.error;
+  if (scoped.error) throw scoped.error;
+
+  const rows = [scoped.data, global.data] as Array<PriceSettingsRow | null>;
+  const pick = <K extends keyof PriceSettingsRow>(key: K) =>
+    rows.map((row) => row?.[key]).find((value) => value !== null && value !== undefined);
+
+  const settings: PriceSettings = {
+    extrapolation: pick("extrapolation") ?? DEFAULT_EXTRAPOLATION_POLICY,
+    max_extrapolation_seconds: Number(pick("max_extrapolation_seconds") ?? DEFAULT_MAX_EXTRAPOLATION),
+    max_gap_seconds: Number(pick("max_gap_seconds") ?? DEFAULT_MAX_GAP),
+    on_gap_exceeded: pick("on_gap_exceeded") ?? DEFAULT_GAP_POLICY
+  };
+  settingsCache.set(key, settings);
+  return settings;
+}
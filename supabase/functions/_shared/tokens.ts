@@ -0,0 +1,90 @@
+import { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2"
+import { LruCache } from "./cache.ts"
+import { loadNetworks } from "./registry.ts"
+import { JsonRpcClient, decodeString, decodeWord, rpcUrlFor } from "./rpc.ts"
+
+// Function selectors
+const NAME = "0x06fdde03";
+const SYMBOL = "0x95d89b41";
+const DECIMALS = "0x313ce567";
+
+export interface TokenInfo {
+  address: string;
+  network: string;
+  symbol: string | null;
+  name: string | null;
+  decimals: number | null;
+  deployment_block: number | null;
+  // Ids the token is known by elsewhere, e.g. { coingecko: "usd-coin" }
+  provider_ids: Record<string, string>;
+}
+
+const TOKEN_COLUMNS = "address, network, symbol, name, decimals, deployment_block, provider_ids";
+
+// Metadata barely changes, so results are kept for the same five minutes as price series;
+// addresses that are not tokens are cached as null so repeated misses skip the RPC reads
+const tokenCache = new LruCache<TokenInfo | null>(500, 5 * 60 * 1000);
+
+/**
+ * Metadata for a token: the `tokens` row when there is one, otherwise read
+ * on-chain with name(), symbol() and decimals() and stored for next time.
+ * Returns null when the row is missing and the network has no RPC endpoint,
+ * or the address does not answer as an ERC-20.
+ */
+export async function resolveToken(
+  supabase: SupabaseClient,
+  address: string,
+  network: string
+): Promise<TokenInfo | null> {
+  const key = `${network}:${address}`;
+  const cached = tokenCache.get(key);
+  if (cached !== undefined) return cached;
+
+  const { data, error } = await supabase
+    .from("tokens")
+    .select(TOKEN_COLUMNS)
+    .eq("address", address)
+    .eq("network", network)
+    .maybeSingle()
+  if (error) throw error;
+
+  const token = (data as TokenInfo | null) ?? await readErc20(supabase, address, network);
+  if (!token) {
+    tokenCache.set(key, null);
+    return null;
+  }
+
+  if (!data) {
+    const { error: insertError } = await supabase
+      .from("tokens")
+      .upsert(token, { onConflict: "address,network", ignoreDuplicates: true })
+    if (insertError) console.warn(`Failed to store metadata for ${key}:`, insertError);
+  }
+
+  tokenCache.set(key, token);
+  return token;
+}
+
+async function readErc20(supabase: SupabaseClient, address: string, network: string): Promise<TokenInfo | null> {
+  const url = rpcUrlFor((await loadNetworks(supabase))[network]);
+  if (!url) return null;
+
+  const client = new JsonRpcClient(url);
+  // Each call may revert on non-standard tokens; a missing field is left null
+  const call = (selector: string) => client.ethCall(address, selector).catch(() => null);
+  const [name, symbol, decimals] = await Promise.all([call(NAME), call(SYMBOL), call(DECIMALS)]);
+
+  const token: TokenInfo = {
+    address,
+    network,
+    symbol: symbol ? decodeString(symbol) : null,
+    name: name ? decodeString(name) : null,
+    decimals: decimals && decimals !== "0x" ? Number(decodeWord(decimals)) : null,
+    // Neither can be read from the contract; both are curated on the `tokens` row
+    deployment_block: null,
+    provider_ids: {},
+  };
+
+  // Nothing answered: not a contract, or not a token
+  return token.symbol === null && token.name === null && token.decimals === null ? null : token;
+}
@@ -0,0 +1,79 @@
+import { assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { FieldError } from "./errors.ts";
+import { NetworkInfo } from "./networks.ts";
+import { parseAddress, parseNetwork, parseTimestamp, toChecksumAddress } from "./validation.ts";
+
+// Test vectors from EIP-55
+const CHECKSUMMED = [
+  "0x52908400098527886E0F7030069857D2E4169EE7",
+  "0x8617E340B3D01FA5F11F306F4090FD50E238070D",
+  "0xde709f2102306220921060314715629080e2fb77",
+  "0x27b1fdb04752bbc536007a920d24acb045561c26",
+  "0x5aAeb6053F3E94C9b9A09f33669435E7Ef1BeAed",
+  "0xfB6916095ca1df60bB79Ce92cE3Ea74c37c5d359",
+  "0xdbF03B407c01E7cD3CBea99509d93f8DDDC8C6FB",
+  "0xD1220A0cf47c7B9Be7A2E6BA89F429762e7b9aDb",
+];
+
+const ethereum: NetworkInfo = {
+  name: "ethereum",
+  chain_id: 1,
+  display_name: "Ethereum",
+  rpc_env: "RPC_URL_ETHEREUM",
+  native_asset: "ETH",
+  genesis_timestamp: 1438269973,
+  block_time_seconds: 12,
+};
+
+Deno.test("toChecksumAddress reproduces the EIP-55 vectors", async () => {
+  for (const address of CHECKSUMMED) {
+    assertEquals(await toChecksumAddress(address.toLowerCase()), address);
+  }
+});
+
+Deno.test("parseAddress accepts checksummed, lowercase and uppercase addresses", async () => {
+  const errors: FieldError[] = [];
+  for (const address of CHECKSUMMED.slice(4)) {
+    assertEquals(await parseAddress(address, "token", errors), address.toLowerCase());
+    assertEquals(await parseAddress(address.toLowerCase(), "token", errors), address.toLowerCase());
+    assertEquals(await parseAddress(`0x${address.slice(2).toUpperCase()}`, "token", errors), address.toLowerCase());
+  }
+  assertEquals(errors, []);
+});
+
+Deno.test("parseAddress rejects a mixed-case address with a bad checksum", async () => {
+  const errors: FieldError[] = [];
+  // The first letter of a valid vector, flipped to lower case
+  assertEquals(await parseAddress("0x5aaeb6053F3E94C9b9A09f33669435E7Ef1BeAed", "token", errors), null);
+  assertEquals(errors, [{ field: "token", code: "INVALID_ADDRESS", message: "EIP-55 checksum does not match" }]);
+});
+
+Deno.test("parseAddress rejects anything but 20 hex bytes", async () => {
+  for (const value of ["0x1234", "5aAeb6053F3E94C9b9A09f33669435E7Ef1BeAed", "0xZZaeb6053f3e94c9b9a09f33669435e7ef1beaed", 42]) {
+    const errors: FieldError[] = [];
+    assertEquals(await parseAddress(value, "token", errors), null);
+    assertEquals(errors[0].code, "INVALID_ADDRESS");
+  }
+});
+
+Deno.test("parseNetwork names the enabled networks when it rejects one", () => {
+  const errors: FieldError[] = [];
+  assertEquals(parseNetwork("ethereum", "network", { ethereum }, errors), ethereum);
+  assertEquals(parseNetwork("solana", "network", { ethereum }, errors), null);
+  assertEquals(errors, [{ field: "network", code: "INVALID_NETWORK", message: "Must be one of: ethereum" }]);
+});
+
+Deno.test("parseTimestamp keeps timestamps between genesis and now", () => {
+  const now = 1700000000;
+  const check = (value: unknown) => {
+    const errors: FieldError[] = [];
+    return [parseTimestamp(value, "timestamp", ethereum, errors, now), errors.length];
+  };
+
+  assertEquals(check(1600000000), [1600000000, 0]);
+  assertEquals(check(now), [now, 0]);
+  assertEquals(check(now + 1), [null, 1]);
+  assertEquals(check(ethereum.genesis_timestamp - 1), [null, 1]);
+  assertEquals(check(1600000000.5), [null, 1]);
+  assertEquals(check("1600000000"), [null, 1]);
+});
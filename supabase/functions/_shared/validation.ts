@@ -0,0 +1,99 @@
+import { crypto } from "https://deno.land/std@0.168.0/crypto/mod.ts"
+import { FieldError } from "./errors.ts"
+import { NetworkInfo, NetworkRegistry, isKnownNetwork } from "./networks.ts"
+
+const ADDRESS_PATTERN = /^0x[0-9a-fA-F]{40}$/;
+
+/**
+ * EIP-55 mixed-case form of a 20-byte address: each hex letter is upper-cased
+ * when the matching nibble of keccak256(lowercase address) is 8 or more.
+ */
+export async function toChecksumAddress(address: string): Promise<string> {
+  const hex = address.toLowerCase().replace(/^0x/, "");
+  const digest = new Uint8Array(
+    await crypto.subtle.digest("KECCAK-256", new TextEncoder().encode(hex))
+  );
+
+  let checksummed = "0x";
+  for (let i = 0; i < hex.length; i++) {
+    const nibble = (digest[i >> 1] >> (i % 2 === 0 ? 4 : 0)) & 0x0f;
+    checksummed += nibble >= 8 ? hex[i].toUpperCase() : hex[i];
+  }
+  return checksummed;
+}
+
+/**
+ * Lowercased address, or null after recording why it was rejected.
+ * All-lowercase and all-uppercase input skips the checksum; mixed case must
+ * match EIP-55 exactly.
+ */
+export async function parseAddress(
+  value: unknown,
+  field: string,
+  errors: FieldError[]
+): Promise<string | null> {
+  if (typeof value !== "string" || !ADDRESS_PATTERN.test(value)) {
+    errors.push({ field, code: "INVALID_ADDRESS", message: "Must be a 0x-prefixed 20-byte hex address" });
+    return null;
+  }
+
+  const body = value.slice(2);
+  const mixedCase = body !== body.toLowerCase() && body !== body.toUpperCase();
+  if (mixedCase && (await toChecksumAddress(value)) !== value) {
+    errors.push({ field, code: "INVALID_ADDRESS", message: "EIP-55 checksum does not match" });
+    return null;
+  }
+
+  return value.toLowerCase();
+}
+
+// The registry entry for an enabled network, or null after recording the rejection
+export function parseNetwork(
+  value: unknown,
+  field: string,
+  networks: NetworkRegistry,
+  errors: FieldError[]
+): NetworkInfo | null {
+  if (!isKnownNetwork(networks, value)) {
+    errors.push({
+      field,
+      code: "INVALID_NETWORK",
+      message: `Must be one of: ${Object.keys(networks).join(", ")}`
+    });
+    return null;
+  }
+  return networks[value];
+}
+
+/**
+ * Unix timestamp in seconds, not in the future and, when the network is
+ * known, not before its genesis block.
+ */
+export function parseTimestamp(
+  value: unknown,
+  field: string,
+  network: NetworkInfo | null,
+  errors: FieldError[],
+  now = Math.floor(Date.now() / 1000)
+): number | null {
+  if (typeof value !== "number" || !Number.isInteger(value)) {
+    errors.push({ field, code: "INVALID_TIMESTAMP", message: "Must be an integer Unix timestamp in seconds" });
+    return null;
+  }
+
+  if (value > now) {
+    errors.push({ field, code: "INVALID_TIMESTAMP", message: "Must not be in the future" });
+    return null;
+  }
+
+  if (network && value < network.genesis_timestamp) {
+    errors.push({
+      field,
+      code: "INVALID_TIMESTAMP",
+      message: `Must not be before the ${network.name} genesis block (${network.genesis_timestamp})`
+    });
+    return null;
+  }
+
+  return value;
+}
@@ -0,0 +1,90 @@
+import { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2"
+import { apiError, fieldErrors } from "../_shared/errors.ts"
+import { fail, json, readInput } from "../_shared/http.ts"
+import {
+  QuarantineListRequestSchema,
+  QuarantineListResponse,
+  QuarantineReviewRequestSchema,
+  QuarantinedPrice,
+  fieldErrorsFrom,
+  numericFields,
+} from "../_shared/schemas.ts"
+import { invalidateSeries, toPriceRow } from "../_shared/series.ts"
+
+const QUARANTINE_COLUMNS =
+  'id, token_address, network, quote, resolution, timestamp, price, outlier_score, quarantined, review, reviewed_at, created_at'
+
+const DEFAULT_LIMIT = 100
+
+const LIST_NUMERIC_FIELDS = numericFields(QuarantineListRequestSchema)
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+// Admin routes take the service role key as their bearer token
+export function isAdmin(req: Request): boolean {
+  const key = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')
+  return !!key && req.headers.get('Authorization') === `Bearer ${key}`
+}
+
+// GET /v1/admin/quarantine
+export async function handleQuarantineList(
+  supabase: SupabaseClient,
+  req: Request,
+  requestId: string
+): Promise<Response> {
+  const parsed = QuarantineListRequestSchema.safeParse(await readInput(req, LIST_NUMERIC_FIELDS))
+  if (!parsed.success) {
+    return fail(fieldErrors(fieldErrorsFrom(parsed.error)), requestId)
+  }
+
+  const { status = 'pending', network, token, limit = DEFAULT_LIMIT } = parsed.data
+
+  let query = supabase.from('token_prices').select(QUARANTINE_COLUMNS)
+  query = status === 'pending' ? query.eq('quarantined', true).is('review', null) : query.eq('review', status)
+  if (network) query = query.eq('network', network)
+  if (token) query = query.eq('token_address', token.toLowerCase())
+
+  const { data, error } = await query.order('created_at', { ascending: false }).limit(limit)
+  if (error) throw error
+
+  return json({ prices: (data as QuarantinedPrice[]).map(toPriceRow) } as QuarantineListResponse)
+}
+
+/**
+ * POST /v1/admin/quarantine/:id
+ * Releasing a row puts it back into lookups; rejecting keeps it quarantined
+ * for good, and its slot stops the same bad tick being stored again.
+ */
+export async function handleQuarantineReview(
+  supabase: SupabaseClient,
+  req: Request,
+  id: string,
+  requestId: string
+): Promise<Response> {
+  const parsed = QuarantineReviewRequestSchema.safeParse(await readInput(req) ?? {})
+  if (!parsed.success) {
+    return fail(fieldErrors(fieldErrorsFrom(parsed.error)), requestId)
+  }
+
+  const notFound = () => fail(apiError('NOT_FOUND', `No quarantined price with id ${id}`), requestId)
+  if (!UUID_PATTERN.test(id)) return notFound()
+
+  const { action } = parsed.data
+  const { data, error } = await supabase
+    .from('token_prices')
+    .update({
+      quarantined: action === 'reject',
+      review: action === 'release' ? 'released' : 'rejected',
+      reviewed_at: new Date().toISOString()
+    })
+    .eq('id', id)
+    .eq('quarantined', true)
+    .select(QUARANTINE_COLUMNS)
+    .maybeSingle()
+
+  if (error) throw error
+  if (!data) return notFound()
+
+  invalidateSeries(data.token_address, data.network, data.quote)
+  return json(toPriceRow(data as QuarantinedPrice))
+}
@@ -0,0 +1,84 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2"
+import { apiError, newRequestId } from "../_shared/errors.ts"
+import { RouteContext, RouteHandler, Router, corsHeaders, fail, json, readInput } from "../_shared/http.ts"
+import { buildOpenApiDocument } from "../_shared/openapi.ts"
+import { handleBlock } from "../block/handler.ts"
+import { handleCandles } from "../candles/handler.ts"
+import { handlePrice } from "../price/handler.ts"
+import { handleRange } from "../range/handler.ts"
+import { handleJob, handleSchedule } from "../schedule/handler.ts"
+import { handleQuarantineList, handleQuarantineReview, isAdmin } from "./admin.ts"
+import { handleNetworks } from "./networks.ts"
+import { handleToken } from "./tokens.ts"
+
+// Versioned REST surface: /functions/v1/api/v1/...
+const supabaseClient = () => createClient(
+  Deno.env.get('SUPABASE_URL') ?? '',
+  Deno.env.get('SUPABASE_ANON_KEY') ?? ''
+)
+
+// Writes outside what the public policies allow, for admin routes only
+const adminClient = () => createClient(
+  Deno.env.get('SUPABASE_URL') ?? '',
+  Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+)
+
+const adminRoute = (handler: RouteHandler): RouteHandler => async (req, context) =>
+  isAdmin(req)
+    ? handler(req, context)
+    : fail(apiError('UNAUTHORIZED', 'Admin routes require the service role key as a bearer token'), context.requestId)
+
+const priceRoute = (req: Request, { requestId }: RouteContext) =>
+  handlePrice(supabaseClient(), req, requestId)
+
+const rangeRoute = (req: Request, { requestId }: RouteContext) =>
+  handleRange(supabaseClient(), req, requestId)
+
+const candlesRoute = (req: Request, { requestId }: RouteContext) =>
+  handleCandles(supabaseClient(), req, requestId)
+
+const blockRoute = (req: Request, { requestId }: RouteContext) =>
+  handleBlock(supabaseClient(), req, requestId)
+
+const router = new Router()
+  .on('GET', '/v1/price', priceRoute)
+  .on('POST', '/v1/price', priceRoute)
+  .on('GET', '/v1/jobs/:id', (_req, { params, requestId }) =>
+    handleJob(supabaseClient(), params.id, requestId)
+  )
+  .on('GET', '/v1/range', rangeRoute)
+  .on('POST', '/v1/range', rangeRoute)
+  .on('GET', '/v1/candles', candlesRoute)
+  .on('POST', '/v1/candles', candlesRoute)
+  .on('GET', '/v1/block', blockRoute)
+  .on('POST', '/v1/block', blockRoute)
+  .on('POST', '/v1/schedule', async (req, { requestId }) =>
+    handleSchedule(supabaseClient(), await readInput(req), requestId)
+  )
+  .on('GET', '/v1/networks', () => handleNetworks(supabaseClient()))
+  .on('GET', '/v1/tokens/:network/:address', (_req, { params, requestId }) =>
+    handleToken(supabaseClient(), params, requestId)
+  )
+  .on('GET', '/v1/admin/quarantine', adminRoute((req, { requestId }) =>
+    handleQuarantineList(adminClient(), req, requestId)
+  ))
+  .on('POST', '/v1/admin/quarantine/:id', adminRoute((req, { params, requestId }) =>
+    handleQuarantineReview(adminClient(), req, params.id, requestId)
+  ))
+  .on('GET', '/v1/openapi.json', async () => json(buildOpenApiDocument()))
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  const requestId = newRequestId()
+
+  try {
+    return await router.handle(req, requestId)
+  } catch (error) {
+    console.error(`Error in api function [${requestId}]:`, error)
+    return fail(apiError('INTERNAL_ERROR', 'Internal server error'), requestId)
+  }
+})
@@ -0,0 +1,13 @@
+import { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2"
+import { json } from "../_shared/http.ts"
+import { quoteSymbolsFor } from "../_shared/quotes.ts"
+import { loadNetworks } from "../_shared/registry.ts"
+import { NetworkListResponse } from "../_shared/schemas.ts"
+
+// GET /v1/networks
+export async function handleNetworks(supabase: SupabaseClient): Promise<Response> {
+  const networks = Object.values(await loadNetworks(supabase))
+    .map(({ rpc_env: _rpcEnv, ...network }) => ({ ...network, quotes: quoteSymbolsFor(network.name) }))
+
+  return json({ networks } as NetworkListResponse)
+}
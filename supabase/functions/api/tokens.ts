@@ -0,0 +1,29 @@
+import { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2"
+import { FieldError, apiError, fieldErrors } from "../_shared/errors.ts"
+import { fail, json } from "../_shared/http.ts"
+import { loadNetworks } from "../_shared/registry.ts"
+import { TokenResponse } from "../_shared/schemas.ts"
+import { resolveToken } from "../_shared/tokens.ts"
+import { parseAddress, parseNetwork } from "../_shared/validation.ts"
+
+// GET /v1/tokens/:network/:address
+export async function handleToken(
+  supabase: SupabaseClient,
+  params: Record<string, string>,
+  requestId: string
+): Promise<Response> {
+  const errors: FieldError[] = []
+  parseNetwork(params.network, 'network', await loadNetworks(supabase), errors)
+  const address = await parseAddress(params.address, 'address', errors)
+
+  if (errors.length > 0) {
+    return fail(fieldErrors(errors), requestId)
+  }
+
+  const token = await resolveToken(supabase, address, params.network)
+  if (!token) {
+    return fail(apiError('NOT_FOUND', `No token metadata for ${address} on ${params.network}`), requestId)
+  }
+
+  return json(token as TokenResponse)
+}
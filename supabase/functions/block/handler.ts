@@ -0,0 +1,58 @@
+import { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2"
+import { FieldError, apiError, fieldErrors } from "../_shared/errors.ts"
+import { fail, json, readInput } from "../_shared/http.ts"
+import { resolveBlock } from "../_shared/blocks.ts"
+import { loadNetworks } from "../_shared/registry.ts"
+import { rpcUrlFor } from "../_shared/rpc.ts"
+import { BlockRequestSchema, BlockResponse, fieldErrorsFrom, numericFields } from "../_shared/schemas.ts"
+import { parseNetwork, parseTimestamp } from "../_shared/validation.ts"
+
+// Query-string fields read as numbers on GET requests
+const BLOCK_NUMERIC_FIELDS = numericFields(BlockRequestSchema);
+
+/**
+ * The canonical block at a timestamp. Shared by the unversioned `block`
+ * function and `/v1/block`.
+ */
+export async function handleBlock(
+  supabase: SupabaseClient,
+  req: Request,
+  requestId: string,
+  headers: Record<string, string> = {}
+): Promise<Response> {
+  const input = await readInput(req, BLOCK_NUMERIC_FIELDS)
+  if (!input) {
+    return fail(apiError('INVALID_REQUEST', 'Request body must be a JSON object'), requestId, headers)
+  }
+
+  const parsed = BlockRequestSchema.safeParse(input)
+  if (!parsed.success) {
+    return fail(fieldErrors(fieldErrorsFrom(parsed.error)), requestId, headers)
+  }
+
+  const { network, timestamp } = parsed.data
+  const errors: FieldError[] = []
+  const networks = await loadNetworks(supabase)
+  const networkInfo = parseNetwork(network, 'network', networks, errors)
+  parseTimestamp(timestamp, 'timestamp', networkInfo, errors)
+
+  if (errors.length > 0) {
+    return fail(fieldErrors(errors), requestId, headers)
+  }
+
+  if (!rpcUrlFor(networks[network])) {
+    return fail(apiError('UNSUPPORTED_NETWORK', `No RPC endpoint configured for network ${network}`), requestId, headers)
+  }
+
+  const block = await resolveBlock(supabase, network, timestamp)
+  if (!block) {
+    return fail(apiError('NOT_FOUND', 'Timestamp predates the first block'), requestId, headers)
+  }
+
+  return json({
+    network,
+    timestamp,
+    block_number: block.number,
+    block_timestamp: block.timestamp
+  } as BlockResponse, 200, headers)
+}
@@ -0,0 +1,102 @@
+import { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2"
+import { FieldError, apiError, fieldErrors } from "../_shared/errors.ts"
+import { fail, json, readInput } from "../_shared/http.ts"
+import { DEFAULT_QUOTE, QUOTE_SYMBOLS, normalizeQuote } from "../_shared/quotes.ts"
+import { loadNetworks } from "../_shared/registry.ts"
+import {
+  CANDLE_INTERVAL_PATTERN,
+  Candle,
+  CandlesRequestSchema,
+  CandlesResponse,
+  fieldErrorsFrom,
+  numericFields,
+} from "../_shared/schemas.ts"
+import { parseAddress, parseNetwork } from "../_shared/validation.ts"
+
+// Query-string fields read as numbers on GET requests
+const CANDLES_NUMERIC_FIELDS = numericFields(CandlesRequestSchema);
+
+// Upper bound on candles returned by one request
+const MAX_CANDLES = 5000;
+
+const INTERVAL_UNITS: Record<string, { postgres: string; seconds: number }> = {
+  m: { postgres: 'minutes', seconds: 60 },
+  h: { postgres: 'hours', seconds: 3600 },
+  d: { postgres: 'days', seconds: 86400 },
+  w: { postgres: 'weeks', seconds: 7 * 86400 },
+  M: { postgres: 'months', seconds: 30 * 86400 },
+}
+
+/**
+ * OHLC candles built from stored rows. Shared by the unversioned `candles`
+ * function and `/v1/candles`.
+ */
+export async function handleCandles(
+  supabase: SupabaseClient,
+  req: Request,
+  requestId: string,
+  headers: Record<string, string> = {}
+): Promise<Response> {
+  const input = await readInput(req, CANDLES_NUMERIC_FIELDS)
+  if (!input) {
+    return fail(apiError('INVALID_REQUEST', 'Request body must be a JSON object'), requestId, headers)
+  }
+
+  const parsed = CandlesRequestSchema.safeParse(input)
+  if (!parsed.success) {
+    return fail(fieldErrors(fieldErrorsFrom(parsed.error)), requestId, headers)
+  }
+
+  const { token, network, interval, from, to, quote: rawQuote = DEFAULT_QUOTE } = parsed.data
+
+  const errors: FieldError[] = []
+  const tokenAddress = await parseAddress(token, 'token', errors)
+  parseNetwork(network, 'network', await loadNetworks(supabase), errors)
+
+  // The schema guarantees a positive count and a known unit
+  const [, count, unitKey] = CANDLE_INTERVAL_PATTERN.exec(interval) ?? []
+  const unit = INTERVAL_UNITS[unitKey]
+
+  if (from > to) {
+    errors.push({ field: 'to', code: 'INVALID_PARAMETER', message: 'Must not be before from' })
+  } else if ((to - from) / (Number(count) * unit.seconds) > MAX_CANDLES) {
+    errors.push({ field: 'interval', code: 'INVALID_PARAMETER', message: `Window spans more than ${MAX_CANDLES} candles; use a larger interval` })
+  }
+
+  const quote = normalizeQuote(rawQuote)
+  if (!quote) {
+    errors.push({ field: 'quote', code: 'INVALID_PARAMETER', message: `Must be a token address or one of: ${QUOTE_SYMBOLS.join(', ')}` })
+  }
+
+  if (!tokenAddress || !quote || errors.length > 0) {
+    return fail(fieldErrors(errors), requestId, headers)
+  }
+
+  const { data, error } = await supabase.rpc('token_price_candles', {
+    p_token_address: tokenAddress,
+    p_network: network,
+    p_quote: quote,
+    p_bucket: `${count} ${unit.postgres}`,
+    p_from: from,
+    p_to: to
+  })
+
+  if (error) throw error
+
+  const candles: Candle[] = (data ?? []).map((row) => ({
+    timestamp: Number(row.bucket_start),
+    open: Number(row.open),
+    high: Number(row.high),
+    low: Number(row.low),
+    close: Number(row.close),
+    samples: row.samples
+  }))
+
+  return json({
+    token: tokenAddress,
+    network,
+    quote,
+    interval,
+    candles
+  } as CandlesResponse, 200, headers)
+}
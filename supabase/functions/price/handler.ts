@@ -0,0 +1,111 @@
+import { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2"
+import { CacheStats, cacheStatsHeaders, newCacheStats } from "../_shared/cache.ts"
+import { apiError, fieldErrors } from "../_shared/errors.ts"
+import { conditionalJson, fail, json, readInput } from "../_shared/http.ts"
+import { NetworkRegistry } from "../_shared/networks.ts"
+import { loadNetworks } from "../_shared/registry.ts"
+import {
+  BatchPriceRequest,
+  BatchPriceRequestSchema,
+  BatchPriceResponse,
+  PriceRequestSchema,
+  PriceResponse,
+  booleanFields,
+  fieldErrorsFrom,
+  numericFields,
+} from "../_shared/schemas.ts"
+import { PriceQuery, isPriceError, lastModified, parsePriceRequest, resolvePrices } from "./lookup.ts"
+
+// Upper bound on tuples accepted by a single batch request
+const MAX_BATCH_SIZE = 5000;
+
+// Query-string fields read as numbers and booleans on GET requests
+const PRICE_NUMERIC_FIELDS = numericFields(PriceRequestSchema);
+const PRICE_BOOLEAN_FIELDS = booleanFields(PriceRequestSchema);
+
+// Answers for timestamps at least this old are treated as final
+const SETTLED_AFTER = 86400;
+
+const SETTLED_CACHE_CONTROL = "public, max-age=86400";
+
+// Settled answers can be cached by clients and proxies; extrapolations may move once real rows arrive
+function isSettled(outcome: PriceResponse, timestamp: number): boolean {
+  const source = outcome.canonical?.source ?? outcome.source;
+  return source !== "extrapolated" && timestamp <= Math.floor(Date.now() / 1000) - SETTLED_AFTER;
+}
+
+async function handleBatch(
+  supabase: SupabaseClient,
+  { items }: BatchPriceRequest,
+  requestId: string,
+  headers: Record<string, string>,
+  stats: CacheStats,
+  networks: NetworkRegistry
+): Promise<Response> {
+  if (items.length > MAX_BATCH_SIZE) {
+    return fail(apiError('INVALID_REQUEST', `Batch must contain between 1 and ${MAX_BATCH_SIZE} items`), requestId, headers)
+  }
+
+  const parsed = await Promise.all(items.map((item) => parsePriceRequest(item, networks)));
+  const valid = parsed.filter((item): item is PriceQuery => !isPriceError(item));
+  const outcomes = await resolvePrices(supabase, valid, stats);
+
+  // Stitch resolved outcomes back between the items that failed validation
+  let next = 0;
+  const results = parsed.map((item) => isPriceError(item) ? item : outcomes[next++]);
+
+  return json({ results } as BatchPriceResponse, 200, { ...headers, ...cacheStatsHeaders(stats) })
+}
+
+/**
+ * Answer a single price request or, when the input has an `items` array, a
+ * batch. Settled single answers carry Cache-Control, ETag and Last-Modified
+ * and honour If-None-Match. Shared by the unversioned `price` function and
+ * `/v1/price`.
+ */
+export async function handlePrice(
+  supabase: SupabaseClient,
+  req: Request,
+  requestId: string,
+  headers: Record<string, string> = {}
+): Promise<Response> {
+  const input = await readInput(req, PRICE_NUMERIC_FIELDS, PRICE_BOOLEAN_FIELDS)
+  if (!input) {
+    return fail(apiError('INVALID_REQUEST', 'Request body must be a JSON object'), requestId, headers)
+  }
+
+  const networks = await loadNetworks(supabase)
+
+  // A malformed item rejects the whole batch; items that are well-formed but
+  // name an unknown network or a bad checksum fail on their own
+  if (Array.isArray(input.items)) {
+    const batch = BatchPriceRequestSchema.safeParse(input)
+    if (!batch.success) {
+      return fail(fieldErrors(fieldErrorsFrom(batch.error)), requestId, headers)
+    }
+    return handleBatch(supabase, batch.data, requestId, headers, newCacheStats(), networks)
+  }
+
+  const query = await parsePriceRequest(input, networks)
+  if (isPriceError(query)) {
+    return fail(query.error, requestId, headers)
+  }
+
+  const stats = newCacheStats()
+  const [outcome] = await resolvePrices(supabase, [query], stats)
+  const responseHeaders = { ...headers, ...cacheStatsHeaders(stats) }
+  if (isPriceError(outcome)) {
+    return fail(outcome.error, requestId, responseHeaders)
+  }
+
+  if (!isSettled(outcome, query.timestamp)) {
+    return json(outcome, 200, { ...responseHeaders, 'Cache-Control': 'no-cache' })
+  }
+
+  const modified = lastModified(outcome)
+  return conditionalJson(outcome, req.headers.get('If-None-Match'), {
+    ...responseHeaders,
+    'Cache-Control': SETTLED_CACHE_CONTROL,
+    ...(modified !== null ? { 'Last-Modified': new Date(modified).toUTCString() } : {})
+  })
+}
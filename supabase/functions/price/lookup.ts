@@ -0,0 +1,695 @@
+import { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2"
+import {
+  DEFAULT_INTERPOLATION_METHOD,
+  ExtrapolationPolicy,
+  InterpolationMethod,
+} from "../_shared/interpolation.ts"
+import { cachedBlock, resolveBlock } from "../_shared/blocks.ts"
+import { CanonicalAsset, resolveCanonical } from "../_shared/canonical.ts"
+import {
+  ProviderAttempt,
+  ProviderChain,
+  ProviderError,
+  ProviderName,
+  createPriceProvider,
+} from "../_shared/providers/index.ts"
+import { screenPrices } from "../_shared/outliers.ts"
+import { recordProvenance } from "../_shared/provenance.ts"
+import { resolveToken } from "../_shared/tokens.ts"
+import { DEFAULT_QUOTE, QUOTE_SYMBOLS, normalizeQuote, quoteAssetAddress } from "../_shared/quotes.ts"
+import {
+  CachedPrice,
+  PointOptions,
+  TOKEN_PRICES_CONFLICT,
+  bracketGap,
+  invalidateSeries,
+  loadSeries,
+  lookbackFor,
+  pointAt,
+  seriesModifiedAt,
+  toPriceRow,
+  tracePoint,
+} from "../_shared/series.ts"
+import { CacheStats, SingleFlight, newCacheStats } from "../_shared/cache.ts"
+import { loadPriceSettings } from "../_shared/settings.ts"
+import { ApiError, ErrorCode, FieldError, apiError, fieldErrors } from "../_shared/errors.ts"
+import {
+  CACHE_TOLERANCE,
+  ExplainLeg,
+  GapGuard,
+  PriceRequestSchema,
+  PriceResponse,
+  fieldErrorsFrom,
+} from "../_shared/schemas.ts"
+import { NetworkRegistry } from "../_shared/networks.ts"
+import { loadNetworks } from "../_shared/registry.ts"
+import { parseAddress, parseNetwork, parseTimestamp } from "../_shared/validation.ts"
+
+export interface PriceError {
+  error: ApiError;
+}
+
+export type PriceOutcome = PriceResponse | PriceError;
+
+// A validated request with the token address normalised
+export interface PriceQuery {
+  token: string;
+  network: string;
+  timestamp: number;
+  method: InterpolationMethod;
+  provider?: ProviderName;
+  quote: string;
+  tolerance: number;
+  extrapolation?: ExtrapolationPolicy;
+  max_extrapolation?: number;
+  explain?: boolean;
+  block?: boolean;
+}
+
+export function isPriceError<T extends object>(value: T | PriceError): value is PriceError {
+  return 'error' in value;
+}
+
+function priceError(code: ErrorCode, message: string, details?: Record<string, unknown>): PriceError {
+  return { error: apiError(code, message, details) };
+}
+
+// When the data behind each answer last changed, kept off the response body
+const modifiedAt = new WeakMap<PriceResponse, number>();
+
+function setModified<T extends PriceOutcome>(outcome: T, modified: number | null): T {
+  if (modified !== null && !isPriceError(outcome)) modifiedAt.set(outcome, modified);
+  return outcome;
+}
+
+// Milliseconds since the epoch, or null when the answer's rows are unknown
+export function lastModified(outcome: PriceResponse): number | null {
+  return modifiedAt.get(outcome) ?? null;
+}
+
+/**
+ * Validate every field before any database work: first the request schema,
+ * then the checks it cannot express (EIP-55 checksums, timestamp bounds,
+ * quote availability per network). Each stage reports every failing field.
+ * `networks` is the registry of enabled networks from loadNetworks().
+ */
+export async function parsePriceRequest(
+  input: unknown,
+  networks: NetworkRegistry
+): Promise<PriceQuery | PriceError> {
+  const parsed = PriceRequestSchema.safeParse(input ?? {});
+  if (!parsed.success) {
+    return { error: fieldErrors(fieldErrorsFrom(parsed.error)) };
+  }
+
+  const {
+    token,
+    network,
+    timestamp,
+    method = DEFAULT_INTERPOLATION_METHOD,
+    provider,
+    quote: rawQuote = DEFAULT_QUOTE,
+    tolerance = CACHE_TOLERANCE,
+    extrapolation,
+    max_extrapolation,
+    explain,
+    block
+  } = parsed.data;
+
+  const errors: FieldError[] = [];
+  const address = await parseAddress(token, 'token', errors);
+  const networkInfo = parseNetwork(network, 'network', networks, errors);
+  parseTimestamp(timestamp, 'timestamp', networkInfo, errors);
+
+  const quote = normalizeQuote(rawQuote);
+  if (!quote) {
+    errors.push({
+      field: 'quote',
+      code: 'INVALID_PARAMETER',
+      message: `Must be a token address or one of: ${QUOTE_SYMBOLS.join(', ')}`
+    });
+  } else if (networkInfo && quote !== DEFAULT_QUOTE && !quoteAssetAddress(quote, network)) {
+    errors.push({ field: 'quote', code: 'INVALID_PARAMETER', message: `${quote} is not available on network ${network}` });
+  }
+
+  if (errors.length > 0) {
+    return { error: fieldErrors(errors) };
+  }
+
+  return {
+    token: address,
+    network,
+    timestamp,
+    method,
+    provider,
+    quote,
+    tolerance,
+    extrapolation,
+    max_extrapolation,
+    explain,
+    block
+  };
+}
+
+/**
+ * Answer a query from an ascending series without touching the database.
+ * Returns null when the series has neither a cache hit nor a bracket, and
+ * the extrapolation policy refuses to project from one side.
+ */
+function resolveFromSeries(
+  series: CachedPrice[],
+  query: PriceQuery,
+  options: PointOptions & { max_gap_seconds: number }
+): PriceResponse | null {
+  const { timestamp, method, quote, tolerance } = query;
+  const point = pointAt(series, timestamp, method, { ...options, tolerance });
+  if (!point) return null;
+
+  switch (point.source) {
+    case "cache":
+      return { price: point.price, quote, source: "cache", match: point.match };
+    case "extrapolated":
+      return { price: point.price, quote, source: "extrapolated", extrapolation: point.extrapolation };
+    default:
+      return {
+        price: point.price,
+        quote,
+        source: "interpolated",
+        method,
+        interpolation: point.interpolation,
+        gap_guard: {
+          max_gap_seconds: options.max_gap_seconds,
+          gap_seconds: point.interpolation.gap_seconds,
+          exceeded: false
+        }
+      };
+  }
+}
+
+// Error code surfaced for each kind of provider failure
+const PROVIDER_ERROR_CODES: Record<ProviderError["code"], ErrorCode> = {
+  unauthorized: "PROVIDER_UNAUTHORIZED",
+  unsupported_network: "UNSUPPORTED_NETWORK",
+  rate_limited: "RATE_LIMITED",
+  unavailable: "PROVIDER_UNAVAILABLE",
+  bad_response: "PROVIDER_BAD_RESPONSE",
+};
+
+// A provider lookup's outcome and the providers it tried on the way
+interface ProviderFetch {
+  outcome: PriceOutcome;
+  calls: ProviderAttempt[];
+  // The timestamp the provider was asked for
+  requested: number;
+}
+
+// Provider fetches in flight, keyed by network, token, provider and UTC day
+const providerFetches = new SingleFlight<ProviderFetch>();
+
+// Timestamp of the provider sample behind each fetched answer
+const sampledAt = new WeakMap<PriceResponse, number>();
+
+function setSampled(outcome: PriceResponse, timestamp: number): PriceResponse {
+  sampledAt.set(outcome, timestamp);
+  return outcome;
+}
+
+const utcDate = (timestamp: number) => new Date(timestamp * 1000).toISOString().split('T')[0];
+
+/**
+ * Fetch a USD price from the provider chain and store it. Concurrent misses
+ * for the same token on the same UTC day share one provider call, and each
+ * caller whose timestamp is within its tolerance of the sample it returned
+ * uses that answer; the rest fetch their own. Each caller gets its own copy
+ * of the outcome since later steps annotate it.
+ */
+async function fetchFromProvider(
+  supabase: SupabaseClient,
+  getProvider: (only?: ProviderName) => ProviderChain,
+  query: PriceQuery
+): Promise<ProviderFetch> {
+  const { token, network, timestamp, provider, tolerance } = query;
+  const fetchFor = (key: string) => providerFetches.run(key, async () => {
+    const calls: ProviderAttempt[] = [];
+    return { outcome: await fetchAndStore(supabase, getProvider, query, calls), calls, requested: timestamp };
+  });
+
+  // Provider answers are always in USD, so the quote needs no place in the key
+  const bucket = `${network}:${token}:${provider ?? '*'}`;
+  let shared = await fetchFor(`${bucket}:${utcDate(timestamp)}`);
+  const sample = isPriceError(shared.outcome) ? undefined : sampledAt.get(shared.outcome);
+  if (sample !== undefined && shared.requested !== timestamp && Math.abs(sample - timestamp) > tolerance) {
+    shared = await fetchFor(`${bucket}:${timestamp}`);
+  }
+
+  const { outcome, calls, requested } = shared;
+  return {
+    outcome: isPriceError(outcome)
+      ? { error: { ...outcome.error } }
+      : setModified({ ...outcome }, lastModified(outcome)),
+    calls,
+    requested
+  };
+}
+
+async function fetchAndStore(
+  supabase: SupabaseClient,
+  getProvider: (only?: ProviderName) => ProviderChain,
+  query: PriceQuery,
+  calls: ProviderAttempt[]
+): Promise<PriceOutcome> {
+  const { token, network, timestamp, provider } = query;
+
+  // If no cache data available, walk the provider chain
+  let quote;
+  const fetchedAt = new Date().toISOString();
+  try {
+    quote = await getProvider(provider).getPrice(token, network, timestamp, calls);
+  } catch (error) {
+    if (error instanceof ProviderError) {
+      return priceError(PROVIDER_ERROR_CODES[error.code], error.message, { provider: error.provider });
+    }
+    return priceError('CONFIGURATION_ERROR', error.message);
+  }
+
+  if (!quote) {
+    return priceError('NO_DATA', 'No price data available for this token');
+  }
+
+  // Store in cache for future use; a row for the same sample written by
+  // another instance wins, and is returned instead so every caller sees one value.
+  // A price that fails outlier screening is stored for review but not served;
+  // the insert replaces a quarantined row still pending review in the slot.
+  const resolution = quote.resolution ?? "day";
+  const [screening] = await screenPrices(supabase, token, network, DEFAULT_QUOTE, [
+    { timestamp: quote.timestamp, price: quote.price }
+  ]);
+  const { data: stored, error } = await supabase
+    .from('token_prices')
+    .upsert(
+      {
+        token_address: token,
+        network,
+        timestamp: quote.timestamp,
+        price: quote.price,
+        quote: DEFAULT_QUOTE,
+        resolution,
+        date: utcDate(quote.timestamp),
+        ...screening
+      },
+      { onConflict: TOKEN_PRICES_CONFLICT, ignoreDuplicates: true }
+    )
+    .select()
+  invalidateSeries(token, network, DEFAULT_QUOTE);
+
+  if (error) {
+    console.warn(`Failed to cache price for ${network}:${token}:`, error);
+  } else if (stored.length > 0) {
+    await recordProvenance(supabase, [{
+      token_price_id: (stored[0] as CachedPrice).id,
+      provider: quote.source,
+      raw_payload: quote.raw,
+      fetched_at: fetchedAt
+    }]);
+  } else {
+    const { data: existing } = await supabase
+      .from('token_prices')
+      .select('*')
+      .eq('token_address', token)
+      .eq('network', network)
+      .eq('quote', DEFAULT_QUOTE)
+      .eq('resolution', resolution)
+      .eq('timestamp', quote.timestamp)
+      .eq('quarantined', false)
+      .maybeSingle()
+
+    if (existing) {
+      const row = toPriceRow(existing as CachedPrice);
+      return setSampled(setModified({
+        price: row.price,
+        quote: DEFAULT_QUOTE,
+        source: "cache",
+        match: {
+          timestamp: row.timestamp,
+          distance_seconds: Math.abs(row.timestamp - timestamp),
+          resolution: row.resolution
+        }
+      }, Date.parse(row.updated_at ?? row.created_at)), row.timestamp);
+    }
+  }
+
+  if (screening.quarantined) {
+    return priceError(
+      'PROVIDER_BAD_RESPONSE',
+      `${quote.source} returned a price that failed outlier screening; it is quarantined for review`,
+      { provider: quote.source, outlier_score: screening.outlier_score }
+    );
+  }
+
+  return setSampled(setModified({
+    price: parseFloat(quote.price.toFixed(8)),
+    quote: DEFAULT_QUOTE,
+    source: quote.source
+  }, Date.now()), quote.timestamp);
+}
+
+// Sources answered from stored rows, whose blocks come from block_timestamps only
+const STORED_SOURCES = new Set(['cache', 'interpolated', 'extrapolated', 'canonical']);
+
+/**
+ * Annotate successful outcomes that asked for a block with the block at
+ * their timestamp. Answers read from stored rows only use cached headers;
+ * the RPC search runs just for prices a provider fetched.
+ */
+async function attachBlocks(
+  supabase: SupabaseClient,
+  queries: PriceQuery[],
+  outcomes: PriceOutcome[]
+): Promise<void> {
+  const blocks = new Map<string, number | null>();
+
+  for (let i = 0; i < queries.length; i++) {
+    const outcome = outcomes[i];
+    if (isPriceError(outcome) || !queries[i].block) continue;
+
+    const { network, timestamp } = queries[i];
+    const stored = STORED_SOURCES.has(outcome.source);
+    const key = `${network}:${timestamp}:${stored}`;
+    if (!blocks.has(key)) {
+      try {
+        const block = stored
+          ? await cachedBlock(supabase, network, timestamp)
+          : await resolveBlock(supabase, network, timestamp);
+        blocks.set(key, block?.number ?? null);
+      } catch (error) {
+        console.warn(`Block lookup failed for ${key}:`, error);
+        blocks.set(key, null);
+      }
+    }
+    outcome.block_number = blocks.get(key);
+  }
+}
+
+// Annotate successful outcomes with the token's symbol, reading it on-chain on first sight
+async function attachSymbols(
+  supabase: SupabaseClient,
+  queries: PriceQuery[],
+  outcomes: PriceOutcome[]
+): Promise<void> {
+  const tokens = new Map<string, { token: string; network: string }>();
+  queries.forEach(({ network, token }, i) => {
+    if (!isPriceError(outcomes[i])) tokens.set(`${network}:${token}`, { token, network });
+  });
+
+  const symbols = new Map<string, string | null>();
+  await forEachLimited([...tokens], MISS_CONCURRENCY, async ([key, { token, network }]) => {
+    try {
+      const info = await resolveToken(supabase, token, network);
+      symbols.set(key, info?.symbol ?? null);
+    } catch (error) {
+      console.warn(`Token lookup failed for ${key}:`, error);
+      symbols.set(key, null);
+    }
+  });
+
+  queries.forEach(({ network, token }, i) => {
+    const outcome = outcomes[i];
+    if (!isPriceError(outcome)) outcome.symbol = symbols.get(`${network}:${token}`);
+  });
+}
+
+/**
+ * Convert USD answers into another quote by dividing by the quote asset's
+ * own USD price at the same timestamp.
+ */
+async function crossRate(
+  supabase: SupabaseClient,
+  getProvider: (only?: ProviderName) => ProviderChain,
+  queries: PriceQuery[],
+  stats: CacheStats
+): Promise<PriceOutcome[]> {
+  const tokenLegs = queries.map((query) => ({ ...query, quote: DEFAULT_QUOTE }));
+  const assetLegs = queries.map((query) => ({
+    ...query,
+    token: quoteAssetAddress(query.quote, query.network),
+    quote: DEFAULT_QUOTE
+  }));
+  const legs = await resolveAll(supabase, getProvider, [...tokenLegs, ...assetLegs], stats);
+
+  return queries.map((query, i) => {
+    const tokenLeg = legs[i];
+    const assetLeg = legs[queries.length + i];
+    if (isPriceError(tokenLeg)) return tokenLeg;
+    if (isPriceError(assetLeg)) {
+      return priceError(assetLeg.error.code, `No ${query.quote} rate available: ${assetLeg.error.message}`, {
+        ...assetLeg.error.details,
+        quote_asset: assetLegs[i].token
+      });
+    }
+
+    const rate = assetLeg.price;
+    const interpolation = tokenLeg.interpolation && {
+      ...tokenLeg.interpolation,
+      error_band: {
+        ...tokenLeg.interpolation.error_band,
+        lower: parseFloat((tokenLeg.interpolation.error_band.lower / rate).toFixed(8)),
+        upper: parseFloat((tokenLeg.interpolation.error_band.upper / rate).toFixed(8))
+      }
+    };
+
+    const modified = [lastModified(tokenLeg), lastModified(assetLeg)].filter((value) => value !== null);
+    return setModified({
+      ...tokenLeg,
+      price: parseFloat((tokenLeg.price / rate).toFixed(8)),
+      quote: query.quote,
+      interpolation,
+      cross_rate: { asset: assetLegs[i].token, price: rate, source: assetLeg.source },
+      // resolveAll puts this query's own trace around the legs'
+      explain: query.explain ? { cross_rate: { token: tokenLeg.explain, asset: assetLeg.explain } } : undefined
+    }, modified.length === 2 ? Math.max(...modified) : null);
+  });
+}
+
+/**
+ * Answer misses for bridged tokens from their canonical asset's lookup. The
+ * canonical legs do not follow mappings again, so a chain of mappings can
+ * never loop.
+ */
+async function fromCanonical(
+  supabase: SupabaseClient,
+  getProvider: (only?: ProviderName) => ProviderChain,
+  queries: PriceQuery[],
+  assets: CanonicalAsset[],
+  stats: CacheStats
+): Promise<PriceOutcome[]> {
+  const legs = await resolveAll(
+    supabase,
+    getProvider,
+    queries.map((query, i) => ({ ...query, token: assets[i].token, network: assets[i].network })),
+    stats,
+    false
+  );
+
+  return legs.map((leg, i) => {
+    if (isPriceError(leg)) return leg;
+    return setModified({
+      ...leg,
+      source: "canonical",
+      canonical: { ...assets[i], source: leg.source },
+      explain: queries[i].explain ? { canonical: leg.explain } : undefined
+    }, lastModified(leg));
+  });
+}
+
+// Misses a batch works on at once, so a large batch cannot flood providers or the database
+const MISS_CONCURRENCY = 8;
+
+// Run `task` over `items` with at most `limit` of them in flight at a time
+async function forEachLimited<T>(items: T[], limit: number, task: (item: T) => Promise<void>): Promise<void> {
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) await task(items[next++]);
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+}
+
+async function resolveAll(
+  supabase: SupabaseClient,
+  getProvider: (only?: ProviderName) => ProviderChain,
+  queries: PriceQuery[],
+  stats: CacheStats,
+  followCanonical = true
+): Promise<PriceOutcome[]> {
+  const outcomes: PriceOutcome[] = new Array(queries.length);
+  const groups = new Map<string, number[]>();
+  const crossRated: number[] = [];
+  // Misses for tokens mapped to a canonical asset, tried there before any provider
+  const canonicalized = new Map<number, CanonicalAsset>();
+  // Lookups whose bracket was too wide to interpolate and fell through
+  const guards = new Map<number, GapGuard>();
+  // Traces for queries that asked to explain, filled in as each step runs
+  const traces = new Map<number, ExplainLeg>();
+  // Queries the cached series could not answer
+  const misses: number[] = [];
+
+  const fetchUsd = async (index: number) => {
+    const fetched = await fetchFromProvider(supabase, getProvider, queries[index]);
+    outcomes[index] = fetched.outcome;
+    const trace = traces.get(index);
+    if (trace) trace.provider_calls = fetched.calls;
+  };
+
+  queries.forEach((query, index) => {
+    const key = `${query.network}:${query.token}:${query.quote}`;
+    const members = groups.get(key) ?? [];
+    members.push(index);
+    groups.set(key, members);
+  });
+
+  for (const members of groups.values()) {
+    const { token, network, quote } = queries[members[0]];
+    const lookback = lookbackFor(members.map((index) => queries[index].method));
+
+    const series = await loadSeries(
+      supabase,
+      token,
+      network,
+      quote,
+      Math.min(...members.map((index) => queries[index].timestamp - queries[index].tolerance)),
+      Math.max(...members.map((index) => queries[index].timestamp + queries[index].tolerance)),
+      lookback,
+      stats
+    );
+    const modified = seriesModifiedAt(series);
+
+    // Request fields win over the token's settings, which win over the global row
+    const settings = await loadPriceSettings(supabase, token, network);
+
+    for (const index of members) {
+      const query = queries[index];
+      const trace: ExplainLeg | undefined = query.explain
+        ? { ...tracePoint(series, query.timestamp, query.method, query.tolerance), provider_calls: [] }
+        : undefined;
+      if (trace) traces.set(index, trace);
+
+      const cached = resolveFromSeries(series, query, {
+        extrapolation: {
+          policy: query.extrapolation ?? settings.extrapolation,
+          max_seconds: query.max_extrapolation ?? settings.max_extrapolation_seconds
+        },
+        max_gap_seconds: settings.max_gap_seconds
+      });
+      if (trace && cached?.source !== "interpolated" && cached?.source !== "extrapolated") {
+        trace.neighbours = null;
+      }
+      if (cached) {
+        outcomes[index] = setModified(cached, modified);
+        continue;
+      }
+
+      const gap = bracketGap(series, query.timestamp);
+      if (gap !== null && gap > settings.max_gap_seconds) {
+        const guard = { max_gap_seconds: settings.max_gap_seconds, gap_seconds: gap, exceeded: true };
+        if (settings.on_gap_exceeded === "error") {
+          outcomes[index] = priceError(
+            'INSUFFICIENT_DATA',
+            `Cached rows around this timestamp are ${gap}s apart, more than the ${settings.max_gap_seconds}s allowed`,
+            { gap_guard: guard }
+          );
+          continue;
+        }
+        guards.set(index, guard);
+      }
+
+      misses.push(index);
+    }
+  }
+
+  await forEachLimited(misses, MISS_CONCURRENCY, async (index) => {
+    const { token, network, quote } = queries[index];
+    const canonical = followCanonical ? await resolveCanonical(supabase, token, network) : null;
+    if (canonical) {
+      canonicalized.set(index, canonical);
+    } else if (quote === DEFAULT_QUOTE) {
+      await fetchUsd(index);
+    } else {
+      crossRated.push(index);
+    }
+  });
+
+  // A mapped token falls back to its own provider or cross-rate lookup only
+  // when its canonical asset has no answer either
+  if (canonicalized.size > 0) {
+    const indices = [...canonicalized.keys()];
+    const answered = await fromCanonical(
+      supabase,
+      getProvider,
+      indices.map((index) => queries[index]),
+      indices.map((index) => canonicalized.get(index)),
+      stats
+    );
+    const unanswered: number[] = [];
+    for (const [i, index] of indices.entries()) {
+      if (!isPriceError(answered[i])) {
+        outcomes[index] = answered[i];
+        // The canonical answer carries its own bracket, if any
+        guards.delete(index);
+      } else if (queries[index].quote === DEFAULT_QUOTE) {
+        unanswered.push(index);
+      } else {
+        crossRated.push(index);
+      }
+    }
+    await forEachLimited(unanswered, MISS_CONCURRENCY, fetchUsd);
+  }
+
+  // Quotes other than USD fall back to cross-rating once their own rows run out
+  if (crossRated.length > 0) {
+    const rated = await crossRate(supabase, getProvider, crossRated.map((index) => queries[index]), stats);
+    crossRated.forEach((index, i) => {
+      outcomes[index] = rated[i];
+    });
+  }
+
+  for (const [index, guard] of guards) {
+    const outcome = outcomes[index];
+    if (!isPriceError(outcome)) outcome.gap_guard = guard;
+  }
+
+  for (const [index, trace] of traces) {
+    const outcome = outcomes[index];
+    if (isPriceError(outcome)) {
+      outcome.error.details = { ...outcome.error.details, explain: trace };
+    } else {
+      outcome.explain = { ...trace, ...outcome.explain };
+    }
+  }
+
+  return outcomes;
+}
+
+/**
+ * Resolve many queries at once. Queries are grouped by token/network/quote
+ * so each group costs a handful of range reads instead of three queries per
+ * item. Outcomes are returned in the same order as the input; hot-cache hits
+ * and misses are counted into `stats`.
+ */
+export async function resolvePrices(
+  supabase: SupabaseClient,
+  queries: PriceQuery[],
+  stats: CacheStats = newCacheStats()
+): Promise<PriceOutcome[]> {
+  // Chains are only built on the first miss, so cache hits never need provider config
+  const networks = await loadNetworks(supabase);
+  const chains = new Map<string, ProviderChain>();
+  const getProvider = (only?: ProviderName) => {
+    const key = only ?? '*';
+    if (!chains.has(key)) chains.set(key, createPriceProvider({ supabase, networks }, only));
+    return chains.get(key);
+  };
+
+  const outcomes = await resolveAll(supabase, getProvider, queries, stats);
+  await attachBlocks(supabase, queries, outcomes);
+  await attachSymbols(supabase, queries, outcomes);
+  return outcomes;
+}
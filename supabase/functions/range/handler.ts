@@ -0,0 +1,161 @@
+import { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2"
+import { FieldError, apiError, fieldErrors } from "../_shared/errors.ts"
+import { fail, json, readInput } from "../_shared/http.ts"
+import { DEFAULT_INTERPOLATION_METHOD } from "../_shared/interpolation.ts"
+import { DEFAULT_QUOTE, QUOTE_SYMBOLS, normalizeQuote } from "../_shared/quotes.ts"
+import { loadNetworks } from "../_shared/registry.ts"
+import {
+  CACHE_TOLERANCE,
+  DEFAULT_RANGE_LIMIT,
+  RangePoint,
+  RangeRequest,
+  RangeRequestSchema,
+  RangeResponse,
+  fieldErrorsFrom,
+  numericFields,
+} from "../_shared/schemas.ts"
+import { loadSeries, lookbackFor, pointAt } from "../_shared/series.ts"
+import { loadPriceSettings } from "../_shared/settings.ts"
+import { parseAddress, parseNetwork } from "../_shared/validation.ts"
+
+// Query-string fields read as numbers on GET requests
+const RANGE_NUMERIC_FIELDS = numericFields(RangeRequestSchema);
+
+type Granularity = RangeRequest["granularity"];
+
+// Start of the UTC bucket containing `timestamp`; weeks start on Monday
+function bucketStart(timestamp: number, granularity: Granularity): number {
+  const date = new Date(timestamp * 1000);
+  switch (granularity) {
+    case "hour":
+      date.setUTCMinutes(0, 0, 0);
+      break;
+    case "day":
+      date.setUTCHours(0, 0, 0, 0);
+      break;
+    case "week":
+      date.setUTCHours(0, 0, 0, 0);
+      date.setUTCDate(date.getUTCDate() - ((date.getUTCDay() + 6) % 7));
+      break;
+    case "month":
+      date.setUTCHours(0, 0, 0, 0);
+      date.setUTCDate(1);
+      break;
+  }
+  return Math.floor(date.getTime() / 1000);
+}
+
+function nextBucket(timestamp: number, granularity: Granularity): number {
+  const date = new Date(timestamp * 1000);
+  switch (granularity) {
+    case "hour":
+      date.setUTCHours(date.getUTCHours() + 1);
+      break;
+    case "day":
+      date.setUTCDate(date.getUTCDate() + 1);
+      break;
+    case "week":
+      date.setUTCDate(date.getUTCDate() + 7);
+      break;
+    case "month":
+      date.setUTCMonth(date.getUTCMonth() + 1);
+      break;
+  }
+  return Math.floor(date.getTime() / 1000);
+}
+
+/**
+ * Prices on a UTC grid between two timestamps, a page at a time, answered
+ * from cached rows only. Shared by the unversioned `range` function and
+ * `/v1/range`.
+ */
+export async function handleRange(
+  supabase: SupabaseClient,
+  req: Request,
+  requestId: string,
+  headers: Record<string, string> = {}
+): Promise<Response> {
+  const input = await readInput(req, RANGE_NUMERIC_FIELDS)
+  if (!input) {
+    return fail(apiError('INVALID_REQUEST', 'Request body must be a JSON object'), requestId, headers)
+  }
+
+  const parsed = RangeRequestSchema.safeParse(input)
+  if (!parsed.success) {
+    return fail(fieldErrors(fieldErrorsFrom(parsed.error)), requestId, headers)
+  }
+
+  const {
+    token,
+    network,
+    from,
+    to,
+    granularity,
+    method = DEFAULT_INTERPOLATION_METHOD,
+    quote: rawQuote = DEFAULT_QUOTE,
+    cursor,
+    limit = DEFAULT_RANGE_LIMIT
+  } = parsed.data
+
+  const errors: FieldError[] = []
+  const tokenAddress = await parseAddress(token, 'token', errors)
+  parseNetwork(network, 'network', await loadNetworks(supabase), errors)
+
+  if (from > to) {
+    errors.push({ field: 'to', code: 'INVALID_PARAMETER', message: 'Must not be before from' })
+  }
+
+  const quote = normalizeQuote(rawQuote)
+  if (!quote) {
+    errors.push({ field: 'quote', code: 'INVALID_PARAMETER', message: `Must be a token address or one of: ${QUOTE_SYMBOLS.join(', ')}` })
+  }
+
+  if (!tokenAddress || !quote || errors.length > 0) {
+    return fail(fieldErrors(errors), requestId, headers)
+  }
+
+  // Build this page of the grid, starting at the cursor when one is given
+  const grid: number[] = [];
+  let next = bucketStart(Math.max(cursor ?? from, from), granularity);
+  if (next < from) next = nextBucket(next, granularity);
+  while (next <= to && grid.length < limit) {
+    grid.push(next);
+    next = nextBucket(next, granularity);
+  }
+
+  const series = grid.length > 0
+    ? await loadSeries(
+        supabase,
+        tokenAddress,
+        network,
+        quote,
+        grid[0] - CACHE_TOLERANCE,
+        grid[grid.length - 1] + CACHE_TOLERANCE,
+        lookbackFor([method])
+      )
+    : [];
+
+  const { max_gap_seconds } = await loadPriceSettings(supabase, tokenAddress, network)
+
+  const points: RangePoint[] = [];
+  const missing: number[] = [];
+  for (const timestamp of grid) {
+    const point = pointAt(series, timestamp, method, { max_gap_seconds });
+    if (point) {
+      points.push({ timestamp, price: point.price, source: point.source });
+    } else {
+      missing.push(timestamp);
+    }
+  }
+
+  return json({
+    token: tokenAddress,
+    network,
+    quote,
+    granularity,
+    method,
+    points,
+    missing,
+    next_cursor: next <= to ? next : null
+  } as RangeResponse, 200, headers)
+}
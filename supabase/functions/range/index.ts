@@ -0,0 +1,29 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2"
+import { apiError, newRequestId } from "../_shared/errors.ts"
+import { corsHeaders, deprecationHeaders, fail } from "../_shared/http.ts"
+import { handleRange } from "./handler.ts"
+
+// Unversioned endpoint, kept for existing callers; new integrations use /api/v1/range
+const DEPRECATION = deprecationHeaders('/functions/v1/api/v1/range')
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  const requestId = newRequestId()
+
+  try {
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_ANON_KEY') ?? ''
+    )
+
+    return await handleRange(supabase, req, requestId, DEPRECATION)
+
+  } catch (error) {
+    console.error(`Error in range function [${requestId}]:`, error)
+    return fail(apiError('INTERNAL_ERROR', 'Internal server error'), requestId, DEPRECATION)
+  }
+})
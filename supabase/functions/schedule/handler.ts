@@ -0,0 +1,366 @@
+import { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2"
+import { interpolate } from "../_shared/interpolation.ts"
+import {
+  INTERVAL_SECONDS,
+  PriceProvider,
+  ProviderChain,
+  ProviderQuote,
+  createPriceProvider,
+  nearestQuote,
+} from "../_shared/providers/index.ts"
+import { DEFAULT_QUOTE, QUOTE_SYMBOLS, normalizeQuote, quoteAssetAddress } from "../_shared/quotes.ts"
+import { FieldError, apiError, fieldErrors } from "../_shared/errors.ts"
+import { fail, json } from "../_shared/http.ts"
+import {
+  JobResponse,
+  ScheduleRequestSchema,
+  ScheduleResponse,
+  fieldErrorsFrom,
+} from "../_shared/schemas.ts"
+import { screenPrices } from "../_shared/outliers.ts"
+import { ProvenanceRecord, recordProvenance } from "../_shared/provenance.ts"
+import { TOKEN_PRICES_CONFLICT, invalidateSeries, toPriceRow } from "../_shared/series.ts"
+import { loadNetworks } from "../_shared/registry.ts"
+import { NetworkInfo } from "../_shared/networks.ts"
+import { JsonRpcClient, rpcUrlFor } from "../_shared/rpc.ts"
+import { resolveToken } from "../_shared/tokens.ts"
+import { parseAddress, parseNetwork } from "../_shared/validation.ts"
+
+// How far back a backfill reaches when the token's deployment block is not known
+const DEFAULT_HISTORY_SECONDS = 365 * 24 * 60 * 60;
+
+// Where a token's history starts: the timestamp of its curated deployment block
+// when there is one and the network has an RPC endpoint, otherwise a year ago
+// (never before the network's first block)
+async function getTokenBirthdate(
+  supabase: SupabaseClient,
+  tokenAddress: string,
+  network: string,
+  networkInfo: NetworkInfo
+): Promise<number> {
+  const fallback = Math.max(
+    Math.floor(Date.now() / 1000) - DEFAULT_HISTORY_SECONDS,
+    networkInfo.genesis_timestamp
+  )
+  const url = rpcUrlFor(networkInfo)
+
+  try {
+    const token = await resolveToken(supabase, tokenAddress, network)
+    if (token?.deployment_block == null || !url) return fallback
+
+    const block = await new JsonRpcClient(url).getBlock(token.deployment_block)
+    return block?.timestamp ?? fallback
+  } catch (error) {
+    console.warn(`Deployment lookup failed for ${network}:${tokenAddress}:`, error)
+    return fallback
+  }
+}
+
+// Function to generate daily timestamps from creation to now
+function generateDailyTimestamps(startTimestamp: number): number[] {
+  const timestamps: number[] = [];
+  const now = Math.floor(Date.now() / 1000);
+  const oneDaySeconds = 24 * 60 * 60;
+  
+  for (let ts = startTimestamp; ts <= now; ts += oneDaySeconds) {
+    timestamps.push(ts);
+  }
+  
+  return timestamps;
+}
+
+// USD history of a quote asset: cached rows first, provider data filling the gaps
+async function loadQuoteRates(
+  supabase: SupabaseClient,
+  provider: PriceProvider,
+  asset: string,
+  network: string,
+  from: number,
+  to: number
+): Promise<ProviderQuote[]> {
+  const { data: cached } = await supabase
+    .from('token_prices')
+    .select('timestamp, price')
+    .eq('token_address', asset)
+    .eq('network', network)
+    .eq('quote', DEFAULT_QUOTE)
+    .eq('quarantined', false)
+    .gte('timestamp', from)
+    .lte('timestamp', to)
+    .order('timestamp', { ascending: true })
+
+  const rows = ((cached ?? []) as ProviderQuote[]).map(toPriceRow);
+  const fetched = await provider.getPriceSeries(asset, network, from, to, '1d');
+  return [...rows, ...fetched.filter((quote) => !nearestQuote(rows, quote.timestamp, 3600))]
+    .sort((a, b) => a.timestamp - b.timestamp);
+}
+
+// Quote asset price at `timestamp`, interpolated across at most two days
+function rateAt(rates: ProviderQuote[], timestamp: number): number | null {
+  const exact = nearestQuote(rates, timestamp, 3600);
+  if (exact) return exact.price;
+
+  const before = rates.filter((rate) => rate.timestamp < timestamp).slice(-1);
+  const after = rates.filter((rate) => rate.timestamp > timestamp).slice(0, 1);
+  if (before.length === 0 || after.length === 0) return null;
+  if (after[0].timestamp - before[0].timestamp > 2 * INTERVAL_SECONDS['1d']) return null;
+
+  return interpolate('linear', timestamp, before, after);
+}
+
+/**
+ * Validate a schedule request, record the job and start the backfill in the
+ * background. Shared by the unversioned `schedule` function and `/v1/schedule`.
+ */
+export async function handleSchedule(
+  supabase: SupabaseClient,
+  input: Record<string, unknown> | null,
+  requestId: string,
+  headers: Record<string, string> = {}
+): Promise<Response> {
+  if (!input) {
+    return fail(apiError('INVALID_REQUEST', 'Request body must be a JSON object'), requestId, headers)
+  }
+
+  // Validate everything up front so a bad request never creates a job or rows
+  const parsed = ScheduleRequestSchema.safeParse(input)
+  if (!parsed.success) {
+    return fail(fieldErrors(fieldErrorsFrom(parsed.error)), requestId, headers)
+  }
+
+  const {
+    token: rawToken,
+    network,
+    provider: providerName,
+    quote: rawQuote = DEFAULT_QUOTE
+  } = parsed.data
+
+  const errors: FieldError[] = []
+  const token = await parseAddress(rawToken, 'token', errors)
+  const networks = await loadNetworks(supabase)
+  const networkInfo = parseNetwork(network, 'network', networks, errors)
+
+  const quote = normalizeQuote(rawQuote)
+  const quoteAsset = quote ? quoteAssetAddress(quote, network) : undefined
+
+  if (!quote) {
+    errors.push({ field: 'quote', code: 'INVALID_PARAMETER', message: `Must be a token address or one of: ${QUOTE_SYMBOLS.join(', ')}` })
+  } else if (networkInfo && quote !== DEFAULT_QUOTE && !quoteAsset) {
+    errors.push({ field: 'quote', code: 'INVALID_PARAMETER', message: `${quote} is not available on network ${network}` })
+  }
+
+  if (errors.length > 0) {
+    return fail(fieldErrors(errors), requestId, headers)
+  }
+
+  // Check if we already have daily data for this token in this quote;
+  // intraday rows from on-demand lookups don't count as history
+  const { data: existingData } = await supabase
+    .from('token_prices')
+    .select('date')
+    .eq('token_address', token.toLowerCase())
+    .eq('network', network)
+    .eq('quote', quote)
+    .eq('resolution', 'day')
+    .order('date', { ascending: false })
+    .limit(1)
+
+  // Resolve the provider up front so misconfiguration fails the request, not the job
+  let provider: ProviderChain;
+  try {
+    provider = createPriceProvider({ supabase, networks }, providerName);
+  } catch (error) {
+    return fail(apiError('CONFIGURATION_ERROR', error.message), requestId, headers)
+  }
+
+  let startTimestamp: number;
+  
+  if (existingData && existingData.length > 0) {
+    // Resume from last known date
+    const lastDate = new Date(existingData[0].date);
+    startTimestamp = Math.floor(lastDate.getTime() / 1000) + 86400; // Next day
+  } else {
+    // Start from token creation
+    startTimestamp = await getTokenBirthdate(supabase, token, network, networks[network]);
+  }
+
+  const dailyTimestamps = generateDailyTimestamps(startTimestamp);
+  
+  if (dailyTimestamps.length === 0) {
+    return json({
+      job_id: `no-work-${Date.now()}`,
+      message: 'All historical data already cached',
+      estimated_days: 0
+    } as ScheduleResponse, 200, headers)
+  }
+
+  // Create a job record
+  const jobId = `job-${token.slice(0, 8)}-${Date.now()}`;
+  
+  await supabase
+    .from('price_fetch_jobs')
+    .insert({
+      job_id: jobId,
+      token_address: token.toLowerCase(),
+      network,
+      quote,
+      total_days: dailyTimestamps.length,
+      completed_days: 0,
+      status: 'running',
+      started_at: new Date().toISOString()
+    })
+
+  // Start background processing (in chunks to respect rate limits)
+  const chunkSize = 10; // Process 10 days at a time
+  const chunks = [];
+  
+  for (let i = 0; i < dailyTimestamps.length; i += chunkSize) {
+    chunks.push(dailyTimestamps.slice(i, i + chunkSize));
+  }
+
+  // Process chunks with delays (simulate rate limiting)
+  setTimeout(async () => {
+    try {
+      let completedDays = 0;
+      
+      for (const chunk of chunks) {
+        // One series request per chunk, matched back to each requested day
+        const from = chunk[0] - INTERVAL_SECONDS['1d'];
+        const to = chunk[chunk.length - 1] + INTERVAL_SECONDS['1d'];
+        const fetchedAt = new Date().toISOString();
+        const quotes = await provider.getPriceSeries(token.toLowerCase(), network, from, to, '1d');
+        // Provenance for each stored row, keyed by timestamp
+        const sources = new Map<number, Omit<ProvenanceRecord, 'token_price_id'>>();
+
+        // Non-USD jobs cross-rate against the quote asset's USD history
+        const rates = quoteAsset
+          ? await loadQuoteRates(supabase, provider, quoteAsset, network, from, to)
+          : [];
+
+        const prices = chunk
+          .map((timestamp) => {
+            const match = nearestQuote(quotes, timestamp, INTERVAL_SECONDS['1d'] / 2);
+            if (!match) return null;
+
+            const rate = quoteAsset ? rateAt(rates, match.timestamp) : 1;
+            if (!rate) return null;
+
+            sources.set(match.timestamp, {
+              provider: match.source,
+              raw_payload: quoteAsset ? { usd: match.raw ?? null, quote_rate: rate } : match.raw,
+              fetched_at: fetchedAt,
+              job_id: jobId
+            });
+            return {
+              token_address: token.toLowerCase(),
+              network,
+              timestamp: match.timestamp,
+              price: match.price / rate,
+              quote,
+              // One sample per day, whatever the provider's own granularity
+              resolution: 'day',
+              date: new Date(match.timestamp * 1000).toISOString().split('T')[0]
+            };
+          })
+          .filter((row, index, rows) =>
+            row !== null && rows.findIndex((other) => other?.date === row.date) === index
+          );
+        
+        // Store the batch, keeping any day another request already cached;
+        // days that fail outlier screening are stored quarantined for review
+        if (prices.length > 0) {
+          const screening = await screenPrices(supabase, token.toLowerCase(), network, quote, prices)
+          const quarantined = screening.filter((result) => result.quarantined).length
+          if (quarantined > 0) console.warn(`Quarantined ${quarantined} outlier price(s) for job ${jobId}`)
+
+          const { data: stored, error } = await supabase
+            .from('token_prices')
+            .upsert(
+              prices.map((row, index) => ({ ...row, ...screening[index] })),
+              { onConflict: TOKEN_PRICES_CONFLICT, ignoreDuplicates: true }
+            )
+            .select('id, timestamp');
+          if (error) console.warn(`Failed to store prices for job ${jobId}:`, error);
+          invalidateSeries(token.toLowerCase(), network, quote);
+
+          // Only rows this job wrote get its provenance; skipped days keep their own
+          await recordProvenance(
+            supabase,
+            (stored ?? []).map((row) => ({ ...sources.get(row.timestamp), token_price_id: row.id }))
+          );
+        }
+
+        completedDays += chunk.length;
+
+        // Update job progress
+        await supabase
+          .from('price_fetch_jobs')
+          .update({
+            completed_days: completedDays,
+            status: completedDays >= dailyTimestamps.length ? 'completed' : 'running',
+            updated_at: new Date().toISOString()
+          })
+          .eq('job_id', jobId);
+
+        // Delay between chunks to respect rate limits
+        if (chunks.indexOf(chunk) < chunks.length - 1) {
+          await new Promise(resolve => setTimeout(resolve, 2000)); // 2 second delay
+        }
+      }
+
+      console.log(`Job ${jobId} completed successfully`);
+      
+    } catch (error) {
+      console.error(`Job ${jobId} failed:`, error);
+      
+      await supabase
+        .from('price_fetch_jobs')
+        .update({
+          status: 'error',
+          error_message: error.message,
+          updated_at: new Date().toISOString()
+        })
+        .eq('job_id', jobId);
+    }
+  }, 1000); // Start processing after 1 second
+
+  return json({
+    job_id: jobId,
+    message: 'Historical price fetch scheduled successfully',
+    estimated_days: dailyTimestamps.length
+  } as ScheduleResponse, 200, headers)
+}
+
+// Progress of a job created by handleSchedule
+export async function handleJob(
+  supabase: SupabaseClient,
+  jobId: string,
+  requestId: string
+): Promise<Response> {
+  const { data: job, error } = await supabase
+    .from('price_fetch_jobs')
+    .select('*')
+    .eq('job_id', jobId)
+    .maybeSingle()
+
+  if (error) throw error
+
+  if (!job) {
+    return fail(apiError('NOT_FOUND', `Job ${jobId} not found`), requestId)
+  }
+
+  return json({
+    job_id: job.job_id,
+    token_address: job.token_address,
+    network: job.network,
+    quote: job.quote,
+    status: job.status,
+    total_days: job.total_days,
+    completed_days: job.completed_days,
+    progress: job.total_days > 0 ? Math.round((job.completed_days / job.total_days) * 100) : 100,
+    error_message: job.error_message,
+    started_at: job.started_at,
+    completed_at: job.completed_at,
+    updated_at: job.updated_at
+  } as JobResponse)
+}
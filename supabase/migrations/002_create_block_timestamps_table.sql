@@ -0,0 +1,21 @@
+-- Create block_timestamps table caching block headers seen while resolving timestamps to blocks
+CREATE TABLE IF NOT EXISTS block_timestamps (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    network TEXT NOT NULL,
+    block_number BIGINT NOT NULL,
+    timestamp BIGINT NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Headers are looked up by block and bracketed by timestamp
+CREATE UNIQUE INDEX IF NOT EXISTS idx_block_timestamps_unique ON block_timestamps(network, block_number);
+CREATE INDEX IF NOT EXISTS idx_block_timestamps_network_timestamp ON block_timestamps(network, timestamp);
+
+-- Enable Row Level Security (RLS)
+ALTER TABLE block_timestamps ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow public read access on block_timestamps" ON block_timestamps
+    FOR SELECT USING (true);
+
+CREATE POLICY "Allow public insert access on block_timestamps" ON block_timestamps
+    FOR INSERT WITH CHECK (true);
@@ -0,0 +1,9 @@
+-- Record the currency each cached price is denominated in
+ALTER TABLE token_prices ADD COLUMN IF NOT EXISTS quote TEXT NOT NULL DEFAULT 'USD';
+
+-- One row per token, network, quote and day
+DROP INDEX IF EXISTS idx_token_prices_unique;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_token_prices_unique ON token_prices(token_address, network, quote, date);
+
+-- Scheduled jobs fetch history in a single quote
+ALTER TABLE price_fetch_jobs ADD COLUMN IF NOT EXISTS quote TEXT NOT NULL DEFAULT 'USD';
@@ -0,0 +1,32 @@
+-- Create price_settings table for per-token and global lookup configuration.
+-- A row with NULL token_address and network holds the global defaults; token
+-- rows override any column they set.
+CREATE TABLE IF NOT EXISTS price_settings (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    token_address TEXT,
+    network TEXT,
+    extrapolation TEXT CHECK (extrapolation IN ('last_known', 'bounded', 'refuse')),
+    max_extrapolation_seconds BIGINT CHECK (max_extrapolation_seconds >= 0),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    CHECK ((token_address IS NULL) = (network IS NULL))
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_price_settings_unique
+    ON price_settings(COALESCE(token_address, ''), COALESCE(network, ''));
+
+CREATE TRIGGER update_price_settings_updated_at 
+    BEFORE UPDATE ON price_settings 
+    FOR EACH ROW 
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- Enable Row Level Security (RLS); settings are managed with the service role
+ALTER TABLE price_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow public read access on price_settings" ON price_settings
+    FOR SELECT USING (true);
+
+-- Seed the global defaults
+INSERT INTO price_settings (token_address, network, extrapolation, max_extrapolation_seconds)
+VALUES (NULL, NULL, 'refuse', 604800)
+ON CONFLICT DO NOTHING;
@@ -0,0 +1,10 @@
+-- Limit how wide a bracket the price function may interpolate across, and
+-- what to do past it: fall back to a provider or refuse with an error.
+ALTER TABLE price_settings
+    ADD COLUMN IF NOT EXISTS max_gap_seconds BIGINT CHECK (max_gap_seconds > 0),
+    ADD COLUMN IF NOT EXISTS on_gap_exceeded TEXT CHECK (on_gap_exceeded IN ('provider', 'error'));
+
+-- 30 days keeps daily history interpolable while ruling out year-wide gaps
+UPDATE price_settings
+SET max_gap_seconds = 2592000, on_gap_exceeded = 'provider'
+WHERE token_address IS NULL AND network IS NULL;
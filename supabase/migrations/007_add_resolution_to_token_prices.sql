@@ -0,0 +1,10 @@
+-- Record how finely each cached price was sampled, so intraday rows can sit
+-- alongside the daily snapshot instead of colliding with it
+ALTER TABLE token_prices
+    ADD COLUMN IF NOT EXISTS resolution TEXT NOT NULL DEFAULT 'day'
+    CHECK (resolution IN ('minute', 'hour', 'day'));
+
+-- One row per token, network, quote, resolution and timestamp
+DROP INDEX IF EXISTS idx_token_prices_unique;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_token_prices_unique
+    ON token_prices(token_address, network, quote, resolution, timestamp);
@@ -0,0 +1,25 @@
+-- Create price_provenance table recording where each stored price came from
+CREATE TABLE IF NOT EXISTS price_provenance (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    token_price_id UUID NOT NULL REFERENCES token_prices(id) ON DELETE CASCADE,
+    provider TEXT NOT NULL,
+    -- The provider's own record of the price, as returned
+    raw_payload JSONB,
+    fetched_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    -- Set when the row was written by a scheduled history fetch
+    job_id TEXT REFERENCES price_fetch_jobs(job_id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- One record per stored price
+CREATE UNIQUE INDEX IF NOT EXISTS idx_price_provenance_token_price ON price_provenance(token_price_id);
+CREATE INDEX IF NOT EXISTS idx_price_provenance_job ON price_provenance(job_id);
+
+-- Enable Row Level Security (RLS)
+ALTER TABLE price_provenance ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow public read access on price_provenance" ON price_provenance
+    FOR SELECT USING (true);
+
+CREATE POLICY "Allow public insert access on price_provenance" ON price_provenance
+    FOR INSERT WITH CHECK (true);
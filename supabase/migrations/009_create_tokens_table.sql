@@ -0,0 +1,41 @@
+-- Create tokens table holding ERC-20 metadata per network. Rows are filled
+-- on first sight from name(), symbol() and decimals(); deployment blocks and
+-- provider ids are curated.
+CREATE TABLE IF NOT EXISTS tokens (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    address TEXT NOT NULL CHECK (address ~ '^0x[0-9a-f]{40}$'),
+    network TEXT NOT NULL,
+    symbol TEXT,
+    name TEXT,
+    decimals SMALLINT CHECK (decimals BETWEEN 0 AND 255),
+    deployment_block BIGINT CHECK (deployment_block >= 0),
+    -- Ids the token is known by at each provider, e.g. {"coingecko": "usd-coin"}
+    provider_ids JSONB NOT NULL DEFAULT '{}',
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_tokens_unique ON tokens(address, network);
+CREATE INDEX IF NOT EXISTS idx_tokens_symbol ON tokens(network, symbol);
+
+CREATE TRIGGER update_tokens_updated_at 
+    BEFORE UPDATE ON tokens 
+    FOR EACH ROW 
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- Enable Row Level Security (RLS)
+ALTER TABLE tokens ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow public read access on tokens" ON tokens
+    FOR SELECT USING (true);
+
+CREATE POLICY "Allow public insert access on tokens" ON tokens
+    FOR INSERT WITH CHECK (true);
+
+-- Seed the tokens the app suggests as examples
+INSERT INTO tokens (address, network, symbol, name, decimals, deployment_block, provider_ids)
+VALUES
+    ('0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48', 'ethereum', 'USDC', 'USD Coin', 6, 6082465, '{"coingecko": "usd-coin"}'),
+    ('0x1f9840a85d5af5bf1d1762f925bdaddc4201f984', 'ethereum', 'UNI', 'Uniswap', 18, 10861674, '{"coingecko": "uniswap"}'),
+    ('0xc02aaa39b223fe8d0a0e5c4f27ead9083c756cc2', 'ethereum', 'WETH', 'Wrapped Ether', 18, 4719568, '{"coingecko": "weth"}')
+ON CONFLICT DO NOTHING;
@@ -0,0 +1,41 @@
+-- Create networks table: the chains the oracle serves. Requests naming any
+-- other network are rejected before they reach the cache.
+CREATE TABLE IF NOT EXISTS networks (
+    name TEXT PRIMARY KEY CHECK (name ~ '^[a-z0-9-]+$'),
+    chain_id BIGINT NOT NULL UNIQUE,
+    display_name TEXT NOT NULL,
+    -- Environment variable holding the network's JSON-RPC endpoint
+    rpc_env TEXT NOT NULL,
+    native_asset TEXT NOT NULL,
+    -- Timestamp of the first block; nothing can be priced before it
+    genesis_timestamp BIGINT NOT NULL,
+    -- Average seconds between blocks, a starting hint for block searches
+    block_time_seconds NUMERIC(8, 3) NOT NULL CHECK (block_time_seconds > 0),
+    enabled BOOLEAN NOT NULL DEFAULT TRUE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TRIGGER update_networks_updated_at 
+    BEFORE UPDATE ON networks 
+    FOR EACH ROW 
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- Enable Row Level Security (RLS); networks are managed with the service role
+ALTER TABLE networks ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow public read access on networks" ON networks
+    FOR SELECT USING (true);
+
+-- Avalanche's C-Chain genesis block carries timestamp 0, so its first
+-- block's timestamp is used instead
+INSERT INTO networks (name, chain_id, display_name, rpc_env, native_asset, genesis_timestamp, block_time_seconds)
+VALUES
+    ('ethereum', 1, 'Ethereum', 'RPC_URL_ETHEREUM', 'ETH', 1438269973, 12),
+    ('polygon', 137, 'Polygon', 'RPC_URL_POLYGON', 'POL', 1590824836, 2),
+    ('arbitrum', 42161, 'Arbitrum One', 'RPC_URL_ARBITRUM', 'ETH', 1622240000, 0.25),
+    ('optimism', 10, 'OP Mainnet', 'RPC_URL_OPTIMISM', 'ETH', 1610639500, 2),
+    ('base', 8453, 'Base', 'RPC_URL_BASE', 'ETH', 1686789347, 2),
+    ('bnb', 56, 'BNB Chain', 'RPC_URL_BNB', 'BNB', 1587390414, 0.75),
+    ('avalanche', 43114, 'Avalanche C-Chain', 'RPC_URL_AVALANCHE', 'AVAX', 1600961380, 2)
+ON CONFLICT DO NOTHING;
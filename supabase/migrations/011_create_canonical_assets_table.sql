@@ -0,0 +1,47 @@
+-- Create canonical_assets table mapping bridged or re-issued tokens to the
+-- asset they track. A price miss for a mapped token is answered from the
+-- canonical asset's series instead of a provider call of its own.
+CREATE TABLE IF NOT EXISTS canonical_assets (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    token_address TEXT NOT NULL CHECK (token_address ~ '^0x[0-9a-f]{40}$'),
+    network TEXT NOT NULL REFERENCES networks(name),
+    canonical_address TEXT NOT NULL CHECK (canonical_address ~ '^0x[0-9a-f]{40}$'),
+    canonical_network TEXT NOT NULL REFERENCES networks(name),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    CHECK (token_address <> canonical_address OR network <> canonical_network)
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_canonical_assets_unique ON canonical_assets(token_address, network);
+CREATE INDEX IF NOT EXISTS idx_canonical_assets_canonical ON canonical_assets(canonical_address, canonical_network);
+
+CREATE TRIGGER update_canonical_assets_updated_at 
+    BEFORE UPDATE ON canonical_assets 
+    FOR EACH ROW 
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- Enable Row Level Security (RLS); mappings are curated with the service role
+ALTER TABLE canonical_assets ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow public read access on canonical_assets" ON canonical_assets
+    FOR SELECT USING (true);
+
+-- Seed native and bridged USDC, USDT and WETH against their Ethereum originals
+INSERT INTO canonical_assets (token_address, network, canonical_address, canonical_network)
+VALUES
+    -- USDC (native) and USDC.e
+    ('0x3c499c542cef5e3811e1192ce70d8cc03d5c3359', 'polygon', '0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48', 'ethereum'),
+    ('0x2791bca1f2de4661ed88a30c99a7a9449aa84174', 'polygon', '0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48', 'ethereum'),
+    ('0xaf88d065e77c8cc2239327c5edb3a432268e5831', 'arbitrum', '0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48', 'ethereum'),
+    ('0xff970a61a04b1ca14834a43f5de4533ebddb5cc8', 'arbitrum', '0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48', 'ethereum'),
+    ('0x0b2c639c533813f4aa9d7837caf62653d097ff85', 'optimism', '0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48', 'ethereum'),
+    ('0x833589fcd6edb6e08f4c7c32d4f71b54bda02913', 'base', '0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48', 'ethereum'),
+    ('0xb97ef9ef8734c71904d8002f8b6bc66dd9c48a6e', 'avalanche', '0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48', 'ethereum'),
+    -- USDT
+    ('0xc2132d05d31c914a87c6611c10748aeb04b58e8f', 'polygon', '0xdac17f958d2ee523a2206206994597c13d831ec7', 'ethereum'),
+    -- WETH
+    ('0x7ceb23fd6bc0add59e62ac25578270cff1b9f619', 'polygon', '0xc02aaa39b223fe8d0a0e5c4f27ead9083c756cc2', 'ethereum'),
+    ('0x82af49447d8a07e3bd95bd0d56f35241523fbab1', 'arbitrum', '0xc02aaa39b223fe8d0a0e5c4f27ead9083c756cc2', 'ethereum'),
+    ('0x4200000000000000000000000000000000000006', 'optimism', '0xc02aaa39b223fe8d0a0e5c4f27ead9083c756cc2', 'ethereum'),
+    ('0x4200000000000000000000000000000000000006', 'base', '0xc02aaa39b223fe8d0a0e5c4f27ead9083c756cc2', 'ethereum')
+ON CONFLICT DO NOTHING;
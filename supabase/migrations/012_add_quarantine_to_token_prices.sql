@@ -0,0 +1,71 @@
+-- Flag stored prices that look like bad provider ticks. Each point is scored
+-- on ingest against its neighbours (a robust z-score from the rolling median
+-- and MAD); suspicious points are kept for review but quarantined, so no
+-- lookup, interpolation or candle reads them.
+ALTER TABLE token_prices
+    ADD COLUMN IF NOT EXISTS quarantined BOOLEAN NOT NULL DEFAULT FALSE,
+    -- Robust z-score at ingest; NULL when there were too few neighbours to judge
+    ADD COLUMN IF NOT EXISTS outlier_score DECIMAL(12, 4),
+    -- An admin's verdict: released back into lookups, or rejected for good
+    ADD COLUMN IF NOT EXISTS review TEXT CHECK (review IN ('released', 'rejected')),
+    ADD COLUMN IF NOT EXISTS reviewed_at TIMESTAMP WITH TIME ZONE;
+
+-- The review queue: quarantined rows nobody has looked at yet
+CREATE INDEX IF NOT EXISTS idx_token_prices_quarantine ON token_prices(created_at)
+    WHERE quarantined AND review IS NULL;
+
+-- Candles skip quarantined rows like every other read
+CREATE OR REPLACE FUNCTION token_price_candles(
+    p_token_address TEXT,
+    p_network TEXT,
+    p_quote TEXT,
+    p_bucket INTERVAL,
+    p_from BIGINT,
+    p_to BIGINT
+)
+RETURNS TABLE (
+    bucket_start BIGINT,
+    open DECIMAL(20, 8),
+    high DECIMAL(20, 8),
+    low DECIMAL(20, 8),
+    close DECIMAL(20, 8),
+    samples INTEGER
+)
+LANGUAGE sql
+STABLE
+AS $$
+    WITH bucketed AS (
+        SELECT
+            tp.timestamp,
+            tp.price,
+            CASE
+                WHEN EXTRACT(YEAR FROM p_bucket) * 12 + EXTRACT(MONTH FROM p_bucket) > 0 THEN
+                    TIMESTAMP '1970-01-01' + make_interval(months => (
+                        floor(
+                            ((EXTRACT(YEAR FROM to_timestamp(tp.timestamp) AT TIME ZONE 'UTC') - 1970) * 12
+                              + EXTRACT(MONTH FROM to_timestamp(tp.timestamp) AT TIME ZONE 'UTC') - 1)
+                            / (EXTRACT(YEAR FROM p_bucket) * 12 + EXTRACT(MONTH FROM p_bucket))
+                        ) * (EXTRACT(YEAR FROM p_bucket) * 12 + EXTRACT(MONTH FROM p_bucket))
+                    )::INTEGER)
+                ELSE
+                    date_bin(p_bucket, to_timestamp(tp.timestamp) AT TIME ZONE 'UTC', TIMESTAMP '1970-01-05')
+            END AS bucket
+        FROM token_prices tp
+        WHERE tp.token_address = p_token_address
+          AND tp.network = p_network
+          AND tp.quote = p_quote
+          AND tp.timestamp >= p_from
+          AND tp.timestamp <= p_to
+          AND NOT tp.quarantined
+    )
+    SELECT
+        EXTRACT(EPOCH FROM bucket)::BIGINT AS bucket_start,
+        (array_agg(price ORDER BY timestamp ASC))[1] AS open,
+        MAX(price) AS high,
+        MIN(price) AS low,
+        (array_agg(price ORDER BY timestamp DESC))[1] AS close,
+        COUNT(*)::INTEGER AS samples
+    FROM bucketed
+    GROUP BY bucket
+    ORDER BY bucket;
+$$;
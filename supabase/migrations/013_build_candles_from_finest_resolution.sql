@@ -0,0 +1,67 @@
+-- A bucket holding both hourly and daily rows would otherwise mix samples of
+-- different resolutions into one candle, and a timestamp stored at two
+-- resolutions would count twice. Each bucket is now built from its finest
+-- resolution only, as lookups prefer the finest row.
+CREATE OR REPLACE FUNCTION token_price_candles(
+    p_token_address TEXT,
+    p_network TEXT,
+    p_quote TEXT,
+    p_bucket INTERVAL,
+    p_from BIGINT,
+    p_to BIGINT
+)
+RETURNS TABLE (
+    bucket_start BIGINT,
+    open DECIMAL(20, 8),
+    high DECIMAL(20, 8),
+    low DECIMAL(20, 8),
+    close DECIMAL(20, 8),
+    samples INTEGER
+)
+LANGUAGE sql
+STABLE
+AS $$
+    WITH bucketed AS (
+        SELECT
+            tp.timestamp,
+            tp.price,
+            CASE tp.resolution WHEN 'minute' THEN 0 WHEN 'hour' THEN 1 ELSE 2 END AS resolution_rank,
+            CASE
+                WHEN EXTRACT(YEAR FROM p_bucket) * 12 + EXTRACT(MONTH FROM p_bucket) > 0 THEN
+                    TIMESTAMP '1970-01-01' + make_interval(months => (
+                        floor(
+                            ((EXTRACT(YEAR FROM to_timestamp(tp.timestamp) AT TIME ZONE 'UTC') - 1970) * 12
+                              + EXTRACT(MONTH FROM to_timestamp(tp.timestamp) AT TIME ZONE 'UTC') - 1)
+                            / (EXTRACT(YEAR FROM p_bucket) * 12 + EXTRACT(MONTH FROM p_bucket))
+                        ) * (EXTRACT(YEAR FROM p_bucket) * 12 + EXTRACT(MONTH FROM p_bucket))
+                    )::INTEGER)
+                ELSE
+                    date_bin(p_bucket, to_timestamp(tp.timestamp) AT TIME ZONE 'UTC', TIMESTAMP '1970-01-05')
+            END AS bucket
+        FROM token_prices tp
+        WHERE tp.token_address = p_token_address
+          AND tp.network = p_network
+          AND tp.quote = p_quote
+          AND tp.timestamp >= p_from
+          AND tp.timestamp <= p_to
+          AND NOT tp.quarantined
+    ),
+    finest AS (
+        SELECT timestamp, price, bucket
+        FROM (
+            SELECT *, MIN(resolution_rank) OVER (PARTITION BY bucket) AS finest_rank
+            FROM bucketed
+        ) ranked
+        WHERE resolution_rank = finest_rank
+    )
+    SELECT
+        EXTRACT(EPOCH FROM bucket)::BIGINT AS bucket_start,
+        (array_agg(price ORDER BY timestamp ASC))[1] AS open,
+        MAX(price) AS high,
+        MIN(price) AS low,
+        (array_agg(price ORDER BY timestamp DESC))[1] AS close,
+        COUNT(*)::INTEGER AS samples
+    FROM finest
+    GROUP BY bucket
+    ORDER BY bucket;
+$$;
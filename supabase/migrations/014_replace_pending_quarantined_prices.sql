@@ -0,0 +1,29 @@
+-- A quarantined row awaiting review holds its unique slot, and price writes
+-- ignore duplicates, so a later correct value for the same sample would be
+-- dropped and the lookup would keep failing. A new write for the slot now
+-- replaces the pending row instead; rejected rows keep their slot so the
+-- same bad tick is not stored again. Runs as the owner: callers may insert
+-- but not delete.
+CREATE OR REPLACE FUNCTION replace_pending_quarantined_price()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    DELETE FROM token_prices
+    WHERE token_address = NEW.token_address
+      AND network = NEW.network
+      AND quote = NEW.quote
+      AND resolution = NEW.resolution
+      AND timestamp = NEW.timestamp
+      AND quarantined
+      AND review IS NULL;
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER replace_pending_quarantined_token_price
+    BEFORE INSERT ON token_prices
+    FOR EACH ROW
+    EXECUTE FUNCTION replace_pending_quarantined_price();